@@ -0,0 +1,206 @@
+import { type ReactNode, memo, useCallback, useEffect, useMemo, useRef, useState } from "react";
+import { animateTiles } from "../lib/animation";
+import {
+  BLOCKER_CELL,
+  type Direction,
+  type MovePlan,
+  type Tile,
+  WILDCARD_CELL,
+  gridFromTiles,
+} from "../lib/engine";
+import { DEFAULT_GESTURE, type GestureOptions, useSwipeGestures } from "../lib/input";
+import { type Theme, resolveTileVisual, tileLabel, tileVisualStyle } from "../lib/themes";
+
+type BoardProps = {
+  tiles: Tile[];
+  size: number;
+  theme: Theme;
+  label: string;
+  plan?: MovePlan | null;
+  duration: number;
+  onMoveEnd?: () => void;
+  onSwipe?: (direction: Direction) => void;
+  gesture?: GestureOptions;
+  children?: ReactNode;
+};
+
+type BoardTileProps = {
+  tile: Tile;
+  theme: Theme;
+  cellSize: number;
+  moving: boolean;
+  register: (id: number, element: HTMLDivElement | null) => void;
+};
+
+const GAP = 8;
+const PAD = 12;
+
+const ignoreSwipe = () => {};
+
+const cellLabel = (value: number): string =>
+  value === BLOCKER_CELL
+    ? "stone"
+    : value === WILDCARD_CELL
+    ? "wildcard"
+    : String(value || "empty");
+
+const sameTile = (a: Tile, b: Tile): boolean =>
+  a.id === b.id &&
+  a.value === b.value &&
+  a.row === b.row &&
+  a.col === b.col &&
+  a.kind === b.kind &&
+  !!a.merged === !!b.merged &&
+  !!a.isNew === !!b.isNew;
+
+const isMoving = (plan: MovePlan, tile: Tile): boolean => {
+  const target = plan.targets.get(tile.id);
+  return target ? target.row !== tile.row || target.col !== tile.col : false;
+};
+
+const BoardTile = memo(
+  function BoardTile({ tile, theme, cellSize, moving, register }: BoardTileProps) {
+    const visual = resolveTileVisual(theme, tile);
+    const label = tileLabel(tile);
+    const step = cellSize + GAP;
+    return (
+      <div
+        className={`tile ${moving ? "tile--moving" : ""}`}
+        ref={(element) => register(tile.id, element)}
+        style={{
+          width: cellSize,
+          height: cellSize,
+          transform: `translate(${tile.col * step}px, ${tile.row * step}px)`,
+        }}
+      >
+        <div
+          className={`tile-inner ${tile.kind ? `tile-inner--${tile.kind}` : ""} ${
+            tile.merged ? "tile-inner--merge" : tile.isNew ? "tile-inner--new" : ""
+          }`}
+          style={{
+            ...tileVisualStyle(visual),
+            fontSize: visual.showValue ? (cellSize * 0.9) / Math.max(label.length, 2) : undefined,
+          }}
+        >
+          <span className={visual.showValue ? undefined : "sr-only"}>{label}</span>
+        </div>
+      </div>
+    );
+  },
+  (prev, next) =>
+    sameTile(prev.tile, next.tile) &&
+    prev.theme === next.theme &&
+    prev.cellSize === next.cellSize &&
+    prev.moving === next.moving &&
+    prev.register === next.register
+);
+
+export default function Board({
+  tiles,
+  size,
+  theme,
+  label,
+  plan = null,
+  duration,
+  onMoveEnd,
+  onSwipe = ignoreSwipe,
+  gesture = DEFAULT_GESTURE,
+  children,
+}: BoardProps) {
+  const boardRef = useRef<HTMLDivElement | null>(null);
+  const elementsRef = useRef<Map<number, HTMLDivElement>>(new Map());
+  const stepRef = useRef(0);
+  const durationRef = useRef(duration);
+  const onMoveEndRef = useRef(onMoveEnd);
+  const reducedMotionRef = useRef(false);
+  const [cellSize, setCellSize] = useState(0);
+  const [settledPlan, setSettledPlan] = useState<MovePlan | null>(null);
+
+  durationRef.current = duration;
+  onMoveEndRef.current = onMoveEnd;
+  stepRef.current = cellSize + GAP;
+
+  const animating = plan !== null && plan !== settledPlan;
+  const shown = animating ? plan.from : tiles;
+  const grid = useMemo(() => gridFromTiles(tiles, size), [size, tiles]);
+
+  useSwipeGestures(boardRef, onSwipe, gesture);
+
+  useEffect(() => {
+    const update = () => {
+      if (!boardRef.current) return;
+      const width = boardRef.current.clientWidth - PAD * 2;
+      setCellSize((width - GAP * (size - 1)) / size);
+    };
+    update();
+    window.addEventListener("resize", update);
+    return () => window.removeEventListener("resize", update);
+  }, [size]);
+
+  useEffect(() => {
+    const query = window.matchMedia?.("(prefers-reduced-motion: reduce)");
+    if (!query) return;
+    const update = () => {
+      reducedMotionRef.current = query.matches;
+    };
+    update();
+    query.addEventListener("change", update);
+    return () => query.removeEventListener("change", update);
+  }, []);
+
+  useEffect(() => {
+    if (!plan) return;
+    const animation = animateTiles({
+      tweens: plan.from.flatMap((tile) => {
+        const to = plan.targets.get(tile.id);
+        if (!to || (to.row === tile.row && to.col === tile.col)) return [];
+        return [{ id: tile.id, from: { row: tile.row, col: tile.col }, to }];
+      }),
+      duration: reducedMotionRef.current ? 0 : durationRef.current,
+      onFrame: (id, row, col) => {
+        const element = elementsRef.current.get(id);
+        const step = stepRef.current;
+        if (element) element.style.transform = `translate(${col * step}px, ${row * step}px)`;
+      },
+      onDone: () => {
+        setSettledPlan(plan);
+        onMoveEndRef.current?.();
+      },
+    });
+    return () => animation.cancel();
+  }, [plan]);
+
+  const register = useCallback((id: number, element: HTMLDivElement | null) => {
+    if (element) elementsRef.current.set(id, element);
+    else elementsRef.current.delete(id);
+  }, []);
+
+  return (
+    <div className="board" style={{ "--cells": size } as React.CSSProperties} ref={boardRef}>
+      <div className="grid" role="grid" aria-label={label} aria-readonly="true">
+        {grid.map((row, rowIndex) => (
+          <div className="grid-row" role="row" key={`row-${rowIndex}`}>
+            {row.map((value, colIndex) => (
+              <div className="cell" role="gridcell" key={`cell-${rowIndex}-${colIndex}`}>
+                <span className="sr-only">{cellLabel(value)}</span>
+              </div>
+            ))}
+          </div>
+        ))}
+      </div>
+      <div className="tiles" aria-hidden="true">
+        {shown.map((tile) => (
+          <BoardTile
+            key={tile.id}
+            tile={tile}
+            theme={theme}
+            cellSize={cellSize}
+            moving={animating && isMoving(plan, tile)}
+            register={register}
+          />
+        ))}
+      </div>
+      {children}
+    </div>
+  );
+}
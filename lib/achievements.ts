@@ -0,0 +1,100 @@
+import type { Tile } from "./engine";
+import { WIN_TILE } from "./stats";
+
+export type AchievementContext = {
+  mergedValues: number[];
+  chainMerges: number;
+  tiles: Tile[];
+  size: number;
+  moves: number;
+  undoUsed: boolean;
+};
+
+export type Achievement = {
+  id: string;
+  name: string;
+  description: string;
+  badge: string;
+  check: (context: AchievementContext) => boolean;
+};
+
+export type UnlockedAchievements = Record<string, number>;
+
+export const CHAIN_MERGES = 10;
+export const SPEEDRUN_MOVES = 1000;
+
+const ACHIEVEMENTS_KEY = "2048:achievements";
+
+const isCorner = (tile: Tile, size: number): boolean =>
+  (tile.row === 0 || tile.row === size - 1) && (tile.col === 0 || tile.col === size - 1);
+
+export const ACHIEVEMENTS: Achievement[] = [
+  {
+    id: "first-512",
+    name: "Halfway There",
+    description: "Merge your first 512 tile.",
+    badge: "512",
+    check: ({ mergedValues }) => mergedValues.includes(512),
+  },
+  {
+    id: "first-2048",
+    name: "2048!",
+    description: "Merge a 2048 tile.",
+    badge: "2048",
+    check: ({ mergedValues }) => mergedValues.includes(WIN_TILE),
+  },
+  {
+    id: "no-undo-2048",
+    name: "No Regrets",
+    description: "Reach 2048 without using undo.",
+    badge: "↺",
+    check: ({ mergedValues, undoUsed }) => mergedValues.includes(WIN_TILE) && !undoUsed,
+  },
+  {
+    id: "chain-10",
+    name: "Chain Reaction",
+    description: `Make ${CHAIN_MERGES} merges in a row of merging moves.`,
+    badge: "⛓",
+    check: ({ chainMerges }) => chainMerges >= CHAIN_MERGES,
+  },
+  {
+    id: "speedrun",
+    name: "Speedrun",
+    description: `Reach 2048 in under ${SPEEDRUN_MOVES} moves.`,
+    badge: "⏱",
+    check: ({ mergedValues, moves }) => mergedValues.includes(WIN_TILE) && moves < SPEEDRUN_MOVES,
+  },
+  {
+    id: "corner-win",
+    name: "Cornered",
+    description: "Reach 2048 with the new tile sitting in a corner.",
+    badge: "◰",
+    check: ({ mergedValues, tiles, size }) =>
+      mergedValues.includes(WIN_TILE) &&
+      tiles.some((tile) => tile.value === WIN_TILE && tile.merged && isCorner(tile, size)),
+  },
+];
+
+export const checkAchievements = (
+  context: AchievementContext,
+  unlocked: UnlockedAchievements
+): Achievement[] =>
+  ACHIEVEMENTS.filter((achievement) => !unlocked[achievement.id] && achievement.check(context));
+
+export const loadAchievements = (): UnlockedAchievements => {
+  try {
+    const stored: unknown = JSON.parse(window.localStorage.getItem(ACHIEVEMENTS_KEY) ?? "{}");
+    if (!stored || typeof stored !== "object") return {};
+    return Object.fromEntries(
+      Object.entries(stored).filter(([, time]) => typeof time === "number")
+    ) as UnlockedAchievements;
+  } catch {
+    return {};
+  }
+};
+
+export const saveAchievements = (unlocked: UnlockedAchievements) => {
+  try {
+    window.localStorage.setItem(ACHIEVEMENTS_KEY, JSON.stringify(unlocked));
+  } catch {}
+};
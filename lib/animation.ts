@@ -0,0 +1,84 @@
+export type Easing = (progress: number) => number;
+
+export type Cell = { row: number; col: number };
+
+export type TileTween = {
+  id: number;
+  from: Cell;
+  to: Cell;
+};
+
+export type TweenOptions = {
+  tweens: TileTween[];
+  duration: number;
+  easing?: Easing;
+  onFrame: (id: number, row: number, col: number) => void;
+  onDone: () => void;
+};
+
+export type TileAnimation = {
+  cancel: () => void;
+};
+
+export const easeOutCubic: Easing = (progress) => 1 - (1 - progress) ** 3;
+
+export const DEFAULT_MOVE_DURATION = 120;
+export const MOVE_DURATION_OPTIONS = [60, 120, 180, 260];
+
+const MOVE_DURATION_KEY = "2048:move-duration";
+
+export const animateTiles = ({
+  tweens,
+  duration,
+  easing = easeOutCubic,
+  onFrame,
+  onDone,
+}: TweenOptions): TileAnimation => {
+  let frame = 0;
+  let start: number | null = null;
+
+  const render = (progress: number) => {
+    const eased = easing(progress);
+    for (const { id, from, to } of tweens) {
+      onFrame(id, from.row + (to.row - from.row) * eased, from.col + (to.col - from.col) * eased);
+    }
+  };
+
+  const tick = (time: number) => {
+    start ??= time;
+    const progress = duration > 0 ? Math.min((time - start) / duration, 1) : 1;
+    render(progress);
+    if (progress < 1) {
+      frame = window.requestAnimationFrame(tick);
+      return;
+    }
+    frame = 0;
+    onDone();
+  };
+
+  frame = window.requestAnimationFrame(tick);
+
+  return {
+    cancel: () => {
+      if (!frame) return;
+      window.cancelAnimationFrame(frame);
+      frame = 0;
+      render(0);
+    },
+  };
+};
+
+export const loadMoveDuration = (): number => {
+  try {
+    const stored = Number(window.localStorage.getItem(MOVE_DURATION_KEY));
+    return MOVE_DURATION_OPTIONS.includes(stored) ? stored : DEFAULT_MOVE_DURATION;
+  } catch {
+    return DEFAULT_MOVE_DURATION;
+  }
+};
+
+export const saveMoveDuration = (duration: number) => {
+  try {
+    window.localStorage.setItem(MOVE_DURATION_KEY, String(duration));
+  } catch {}
+};
@@ -0,0 +1,200 @@
+export type SoundEvent = "move" | "merge" | "newMax" | "gameOver" | "win";
+
+export type SoundSettings = {
+  muted: boolean;
+  master: number;
+  effects: number;
+};
+
+type Loop = {
+  source: AudioBufferSourceNode | null;
+  cancelled: boolean;
+};
+
+type Tone = {
+  notes: number[];
+  noteMs: number;
+  wave: OscillatorType;
+  gain: number;
+};
+
+export type AudioManager = {
+  unlock: () => void;
+  preload: (urls: string[]) => Promise<void>;
+  setSettings: (settings: SoundSettings) => void;
+  playEvent: (event: SoundEvent, url?: string) => void;
+  playLoop: (url: string) => void;
+  stopLoop: (url: string) => void;
+  close: () => void;
+};
+
+export const DEFAULT_SOUND: SoundSettings = { muted: true, master: 0.8, effects: 0.8 };
+
+export const BRUH_SOUND = "/Voicy_Bruh.mp3";
+export const RICKROLL_SOUND = "/Voicy_Rickroll.mp3";
+
+const SOUND_KEY = "2048:sound";
+
+const EVENT_TONES: Record<SoundEvent, Tone> = {
+  move: { notes: [220], noteMs: 40, wave: "triangle", gain: 0.15 },
+  merge: { notes: [440, 660], noteMs: 50, wave: "sine", gain: 0.25 },
+  newMax: { notes: [523, 659, 784], noteMs: 70, wave: "square", gain: 0.15 },
+  gameOver: { notes: [392, 330, 262, 196], noteMs: 160, wave: "sawtooth", gain: 0.12 },
+  win: { notes: [523, 659, 784, 1047], noteMs: 120, wave: "square", gain: 0.15 },
+};
+
+export const createAudioManager = (): AudioManager => {
+  let context: AudioContext | null = null;
+  let master: GainNode | null = null;
+  let effects: GainNode | null = null;
+  let settings = DEFAULT_SOUND;
+  const buffers = new Map<string, Promise<AudioBuffer | null>>();
+  const loops = new Map<string, Loop>();
+
+  const applySettings = () => {
+    if (!master || !effects) return;
+    master.gain.value = settings.muted ? 0 : settings.master;
+    effects.gain.value = settings.effects;
+  };
+
+  const ensureContext = (): AudioContext | null => {
+    if (context) return context;
+    if (typeof window === "undefined" || !window.AudioContext) return null;
+    context = new AudioContext();
+    master = context.createGain();
+    effects = context.createGain();
+    effects.connect(master);
+    master.connect(context.destination);
+    applySettings();
+    return context;
+  };
+
+  const stopLoop = (url: string) => {
+    const loop = loops.get(url);
+    if (!loop) return;
+    loop.cancelled = true;
+    loop.source?.stop();
+    loops.delete(url);
+  };
+
+  const stopLoops = () => Array.from(loops.keys()).forEach(stopLoop);
+
+  const resume = () => {
+    if (context?.state === "suspended") context.resume().catch(() => {});
+  };
+
+  const loadBuffer = (url: string): Promise<AudioBuffer | null> => {
+    const ctx = ensureContext();
+    if (!ctx) return Promise.resolve(null);
+    const cached = buffers.get(url);
+    if (cached) return cached;
+    const pending = fetch(url)
+      .then((response) => response.arrayBuffer())
+      .then((data) => ctx.decodeAudioData(data))
+      .catch(() => null);
+    buffers.set(url, pending);
+    return pending;
+  };
+
+  const playBuffer = async (url: string, destination: AudioNode, loop: boolean) => {
+    const buffer = await loadBuffer(url);
+    if (!buffer || !context) return null;
+    const source = context.createBufferSource();
+    source.buffer = buffer;
+    source.loop = loop;
+    source.connect(destination);
+    source.start();
+    return source;
+  };
+
+  const playTone = ({ notes, noteMs, wave, gain }: Tone) => {
+    if (!context || !effects) return;
+    const start = context.currentTime;
+    const length = noteMs / 1000;
+    notes.forEach((frequency, index) => {
+      if (!context || !effects) return;
+      const at = start + index * length;
+      const oscillator = context.createOscillator();
+      const envelope = context.createGain();
+      oscillator.type = wave;
+      oscillator.frequency.value = frequency;
+      envelope.gain.setValueAtTime(gain, at);
+      envelope.gain.exponentialRampToValueAtTime(0.001, at + length);
+      oscillator.connect(envelope);
+      envelope.connect(effects);
+      oscillator.start(at);
+      oscillator.stop(at + length);
+    });
+  };
+
+  return {
+    unlock: () => {
+      ensureContext();
+      resume();
+    },
+    preload: async (urls) => {
+      await Promise.all(urls.map(loadBuffer));
+    },
+    setSettings: (next) => {
+      settings = next;
+      applySettings();
+      if (settings.muted) stopLoops();
+    },
+    playEvent: (event, url) => {
+      if (settings.muted || !ensureContext() || !effects) return;
+      resume();
+      if (url) {
+        playBuffer(url, effects, false).catch(() => {});
+      } else {
+        playTone(EVENT_TONES[event]);
+      }
+    },
+    playLoop: (url) => {
+      if (settings.muted || loops.has(url) || !ensureContext() || !master) return;
+      resume();
+      const loop: Loop = { source: null, cancelled: false };
+      loops.set(url, loop);
+      playBuffer(url, master, true)
+        .catch(() => null)
+        .then((source) => {
+          if (loop.cancelled) {
+            source?.stop();
+          } else if (source) {
+            loop.source = source;
+          } else {
+            loops.delete(url);
+          }
+        });
+    },
+    stopLoop,
+    close: () => {
+      stopLoops();
+      context?.close().catch(() => {});
+      context = null;
+    },
+  };
+};
+
+const clampVolume = (value: unknown, fallback: number): number =>
+  typeof value === "number" && value >= 0 && value <= 1 ? value : fallback;
+
+export const loadSoundSettings = (): SoundSettings => {
+  try {
+    const stored: unknown = JSON.parse(window.localStorage.getItem(SOUND_KEY) ?? "null");
+    if (!stored || typeof stored !== "object") return DEFAULT_SOUND;
+    const data = stored as Record<string, unknown>;
+    return {
+      muted: data.muted !== false,
+      master: clampVolume(data.master, DEFAULT_SOUND.master),
+      effects: clampVolume(data.effects, DEFAULT_SOUND.effects),
+    };
+  } catch {
+    return DEFAULT_SOUND;
+  }
+};
+
+export const saveSoundSettings = (settings: SoundSettings) => {
+  try {
+    window.localStorage.setItem(SOUND_KEY, JSON.stringify(settings));
+  } catch {}
+};
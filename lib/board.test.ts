@@ -0,0 +1,58 @@
+import { describe, expect, it } from "vitest";
+import { type BoardPosition, boardToJson, boardToText, parseBoard } from "./board";
+
+const position: BoardPosition = {
+  size: 4,
+  tiles: [
+    { row: 0, col: 0, value: 2 },
+    { row: 0, col: 3, value: 2048 },
+    { row: 1, col: 1, value: 0, kind: "blocker" },
+    { row: 2, col: 2, value: 0, kind: "wildcard" },
+    { row: 3, col: 0, value: 8, kind: "bomb" },
+  ],
+};
+
+const sortTiles = (board: BoardPosition | null) =>
+  board && { ...board, tiles: [...board.tiles].sort((a, b) => a.row - b.row || a.col - b.col) };
+
+describe("parseBoard", () => {
+  it("round-trips the text format", () => {
+    const text = boardToText(position);
+    expect(text).toBe("2,0,0,2048/0,x,0,0/0,0,w,0/b8,0,0,0");
+    expect(sortTiles(parseBoard(text, 4))).toEqual(position);
+  });
+
+  it("round-trips the JSON format", () => {
+    expect(sortTiles(parseBoard(boardToJson(position.tiles), 4))).toEqual(position);
+  });
+
+  it("grows a JSON board to fit its tiles", () => {
+    expect(parseBoard('[{"row":4,"col":0,"value":2}]', 4)?.size).toBe(5);
+  });
+
+  it.each([
+    ["a value that isn't a power of two", "3,0,0/0,0,0/0,0,0"],
+    ["a value of 1", "1,0,0/0,0,0/0,0,0"],
+    ["an unknown symbol", "q,0,0/0,0,0/0,0,0"],
+    ["an empty cell token", ",0,0/0,0,0/0,0,0"],
+    ["a ragged row", "2,0,0/0,0/0,0,0"],
+    ["a board that isn't square", "2,0,0/0,0,0"],
+    ["a board below the size range", "2,0/0,0"],
+    ["a board above the size range", Array(9).fill(Array(9).fill("0").join(",")).join("/")],
+  ])("rejects text with %s", (_, text) => {
+    expect(parseBoard(text, 4)).toBeNull();
+  });
+
+  it.each([
+    ["invalid JSON", '[{"row":0,'],
+    ["a non-array", '{"row":0,"col":0,"value":2}'],
+    ["a bad tile value", '[{"row":0,"col":0,"value":6}]'],
+    ["a negative position", '[{"row":-1,"col":0,"value":2}]'],
+    ["a fractional position", '[{"row":0.5,"col":0,"value":2}]'],
+    ["an unknown kind", '[{"row":0,"col":0,"value":2,"kind":"laser"}]'],
+    ["two tiles in one cell", '[{"row":0,"col":0,"value":2},{"row":0,"col":0,"value":4}]'],
+    ["a tile past the size range", '[{"row":8,"col":0,"value":2}]'],
+  ])("rejects JSON with %s", (_, text) => {
+    expect(parseBoard(text, 4)).toBeNull();
+  });
+});
@@ -0,0 +1,106 @@
+import { type Spawn, type Tile, type TileKind, isTileKind } from "./engine";
+
+export type BoardPosition = {
+  size: number;
+  tiles: Spawn[];
+};
+
+const KIND_SYMBOLS: Record<Exclude<TileKind, "bomb">, string> = { blocker: "x", wildcard: "w" };
+const BOMB_SYMBOL = "b";
+
+export const MIN_BOARD_SIZE = 3;
+export const MAX_BOARD_SIZE = 8;
+
+const ROW_SEPARATOR = "/";
+const CELL_SEPARATOR = ",";
+
+export const isBoardSize = (size: number): boolean =>
+  Number.isInteger(size) && size >= MIN_BOARD_SIZE && size <= MAX_BOARD_SIZE;
+
+export const isTileValue = (value: number): boolean =>
+  Number.isInteger(value) && value >= 2 && (value & (value - 1)) === 0;
+
+const toSpawn = ({ row, col, value, kind }: Spawn): Spawn =>
+  kind ? { row, col, value, kind } : { row, col, value };
+
+export const cellToken = (spawn: Spawn | undefined): string =>
+  !spawn
+    ? "0"
+    : spawn.kind === "blocker" || spawn.kind === "wildcard"
+    ? KIND_SYMBOLS[spawn.kind]
+    : spawn.kind === "bomb"
+    ? `${BOMB_SYMBOL}${spawn.value}`
+    : String(spawn.value);
+
+export const parseCellToken = (token: string, row: number, col: number): Spawn | null => {
+  const text = token.trim().toLowerCase();
+  if (text === KIND_SYMBOLS.blocker) return { row, col, value: 0, kind: "blocker" };
+  if (text === KIND_SYMBOLS.wildcard) return { row, col, value: 0, kind: "wildcard" };
+  const bomb = text.startsWith(BOMB_SYMBOL);
+  const value = Number(bomb ? text.slice(BOMB_SYMBOL.length) : text);
+  if (!isTileValue(value)) return null;
+  return bomb ? { row, col, value, kind: "bomb" } : { row, col, value };
+};
+
+export const boardToText = ({ size, tiles }: BoardPosition): string =>
+  Array.from({ length: size }, (_, row) =>
+    Array.from({ length: size }, (_, col) =>
+      cellToken(tiles.find((tile) => tile.row === row && tile.col === col))
+    ).join(CELL_SEPARATOR)
+  ).join(ROW_SEPARATOR);
+
+export const boardToJson = (tiles: Spawn[]): string =>
+  JSON.stringify(tiles.map((tile, index) => ({ id: index + 1, ...toSpawn(tile) })));
+
+const parseBoardText = (text: string): BoardPosition | null => {
+  const rows = text.trim().split(ROW_SEPARATOR);
+  const size = rows.length;
+  const tiles: Spawn[] = [];
+  for (const [row, line] of rows.entries()) {
+    const cells = line.split(CELL_SEPARATOR);
+    if (cells.length !== size) return null;
+    for (const [col, token] of cells.entries()) {
+      if (token.trim() === "0") continue;
+      const spawn = parseCellToken(token, row, col);
+      if (!spawn) return null;
+      tiles.push(spawn);
+    }
+  }
+  return { size, tiles };
+};
+
+const isBoardTile = (value: unknown): value is Tile => {
+  if (!value || typeof value !== "object") return false;
+  const tile = value as Record<string, unknown>;
+  return (
+    typeof tile.value === "number" &&
+    Number.isInteger(tile.row) &&
+    Number.isInteger(tile.col) &&
+    (tile.row as number) >= 0 &&
+    (tile.col as number) >= 0 &&
+    (tile.kind === undefined || isTileKind(tile.kind)) &&
+    (tile.kind === "blocker" || tile.kind === "wildcard" || isTileValue(tile.value))
+  );
+};
+
+const parseBoardJson = (text: string, size: number): BoardPosition | null => {
+  let raw: unknown;
+  try {
+    raw = JSON.parse(text);
+  } catch {
+    return null;
+  }
+  if (!Array.isArray(raw) || !raw.every(isBoardTile)) return null;
+  const tiles = raw.map((tile) =>
+    toSpawn(tile.kind === "blocker" || tile.kind === "wildcard" ? { ...tile, value: 0 } : tile)
+  );
+  const extent = Math.max(size, ...tiles.map((tile) => Math.max(tile.row, tile.col) + 1));
+  return { size: extent, tiles };
+};
+
+export const parseBoard = (text: string, size: number): BoardPosition | null => {
+  const board = text.trim().startsWith("[") ? parseBoardJson(text, size) : parseBoardText(text);
+  if (!board || !isBoardSize(board.size)) return null;
+  const cells = new Set(board.tiles.map((tile) => tile.row * board.size + tile.col));
+  return cells.size === board.tiles.length ? board : null;
+};
@@ -0,0 +1,102 @@
+export type CheatAction = "board1024" | "doubleScore" | "rickroll";
+
+export type CheatCode = {
+  id: string;
+  name: string;
+  description: string;
+  sequence: string;
+  action: CheatAction;
+};
+
+export type RewardContext = {
+  mergedValues: number[];
+  cheated: boolean;
+};
+
+export type RewardTrigger = {
+  id: string;
+  name: string;
+  description: string;
+  action: CheatAction;
+  matches: (context: RewardContext) => boolean;
+};
+
+export type CheatSettings = {
+  seriousMode: boolean;
+  disabled: string[];
+};
+
+export const CHEAT_CODES: CheatCode[] = [
+  {
+    id: "1024",
+    name: "Two 1024s",
+    description: "Replace the board with two 1024 tiles.",
+    sequence: "1024",
+    action: "board1024",
+  },
+  {
+    id: "double",
+    name: "Double Score",
+    description: "Double the current score.",
+    sequence: "x2",
+    action: "doubleScore",
+  },
+  {
+    id: "rick",
+    name: "Never Gonna",
+    description: "Play the reward right away.",
+    sequence: "nggyu",
+    action: "rickroll",
+  },
+];
+
+export const REWARD_TRIGGERS: RewardTrigger[] = [
+  {
+    id: "cheated-2048",
+    name: "Cheater's Reward",
+    description: "Merging 2048 after cheating plays the reward.",
+    action: "rickroll",
+    matches: ({ mergedValues, cheated }) => cheated && mergedValues.includes(2048),
+  },
+];
+
+export const DEFAULT_CHEATS: CheatSettings = { seriousMode: false, disabled: [] };
+
+export const CHEAT_BUFFER_LENGTH = Math.max(...CHEAT_CODES.map((code) => code.sequence.length));
+
+const CHEATS_KEY = "2048:cheats";
+
+export const isCheatEnabled = (id: string, settings: CheatSettings): boolean =>
+  !settings.seriousMode && !settings.disabled.includes(id);
+
+export const matchCheat = (buffer: string, settings: CheatSettings): CheatCode | null =>
+  CHEAT_CODES.find(
+    (code) => isCheatEnabled(code.id, settings) && buffer.endsWith(code.sequence)
+  ) ?? null;
+
+export const matchRewards = (context: RewardContext, settings: CheatSettings): RewardTrigger[] =>
+  REWARD_TRIGGERS.filter(
+    (trigger) => isCheatEnabled(trigger.id, settings) && trigger.matches(context)
+  );
+
+export const loadCheatSettings = (): CheatSettings => {
+  try {
+    const stored: unknown = JSON.parse(window.localStorage.getItem(CHEATS_KEY) ?? "null");
+    if (!stored || typeof stored !== "object") return DEFAULT_CHEATS;
+    const data = stored as Record<string, unknown>;
+    return {
+      seriousMode: data.seriousMode === true,
+      disabled: Array.isArray(data.disabled)
+        ? data.disabled.filter((id): id is string => typeof id === "string")
+        : [],
+    };
+  } catch {
+    return DEFAULT_CHEATS;
+  }
+};
+
+export const saveCheatSettings = (settings: CheatSettings) => {
+  try {
+    window.localStorage.setItem(CHEATS_KEY, JSON.stringify(settings));
+  } catch {}
+};
@@ -0,0 +1,347 @@
+import { describe, expect, it } from "vitest";
+import {
+  BLOCKER_CELL,
+  type Direction,
+  type GameState,
+  type Spawn,
+  type Tile,
+  WILDCARD_CELL,
+  applyMove,
+  gridFromTiles,
+  hasMoves,
+  isGameOver,
+  planMove,
+} from "./engine";
+import { createRng } from "./rng";
+
+const SIZE = 4;
+
+const tilesFromRows = (rows: number[][]): Tile[] => {
+  let id = 1;
+  return rows.flatMap((row, r) =>
+    row.flatMap((value, c) => (value ? [{ id: id++, value, row: r, col: c }] : []))
+  );
+};
+
+const rowsFromTiles = (tiles: Tile[], size = SIZE): number[][] => {
+  const rows = Array.from({ length: size }, () => Array.from({ length: size }, () => 0));
+  for (const tile of tiles) rows[tile.row][tile.col] = tile.value;
+  return rows;
+};
+
+const tilesFromSpawns = (spawns: Spawn[]): Tile[] =>
+  spawns.map((spawn, index) => ({ id: index + 1, ...spawn }));
+
+const cellsOf = (tiles: Tile[]) =>
+  tiles
+    .map(({ row, col, value, kind }) => ({ row, col, value, kind }))
+    .sort((a, b) => a.row - b.row || a.col - b.col);
+
+const plan = (rows: number[][], direction: Direction) => {
+  let next = 100;
+  return planMove(tilesFromRows(rows), direction, rows.length, () => next++);
+};
+
+const state = (rows: number[][]): GameState => ({
+  tiles: tilesFromRows(rows),
+  score: 0,
+  size: rows.length,
+  nextId: 100,
+});
+
+describe("planMove", () => {
+  const board = [
+    [2, 0, 0, 2],
+    [0, 4, 0, 0],
+    [0, 0, 0, 0],
+    [8, 0, 8, 4],
+  ];
+
+  it.each<[Direction, number[][]]>([
+    [
+      "left",
+      [
+        [4, 0, 0, 0],
+        [4, 0, 0, 0],
+        [0, 0, 0, 0],
+        [16, 4, 0, 0],
+      ],
+    ],
+    [
+      "right",
+      [
+        [0, 0, 0, 4],
+        [0, 0, 0, 4],
+        [0, 0, 0, 0],
+        [0, 0, 16, 4],
+      ],
+    ],
+    [
+      "up",
+      [
+        [2, 4, 8, 2],
+        [8, 0, 0, 4],
+        [0, 0, 0, 0],
+        [0, 0, 0, 0],
+      ],
+    ],
+    [
+      "down",
+      [
+        [0, 0, 0, 0],
+        [0, 0, 0, 0],
+        [2, 0, 0, 2],
+        [8, 4, 8, 4],
+      ],
+    ],
+  ])("slides and merges %s", (direction, expected) => {
+    const { plan: result, moved } = plan(board, direction);
+    expect(moved).toBe(true);
+    expect(rowsFromTiles(result!.finalTiles)).toEqual(expected);
+  });
+
+  it("merges [2,2,2,2] into [4,4], never [8]", () => {
+    const { plan: result } = plan(
+      [
+        [2, 2, 2, 2],
+        [0, 0, 0, 0],
+        [0, 0, 0, 0],
+        [0, 0, 0, 0],
+      ],
+      "left"
+    );
+    expect(rowsFromTiles(result!.finalTiles)[0]).toEqual([4, 4, 0, 0]);
+    expect(result!.score).toBe(8);
+  });
+
+  it("merges a tile only once per move", () => {
+    const { plan: result } = plan(
+      [
+        [4, 4, 8, 0],
+        [0, 0, 0, 0],
+        [0, 0, 0, 0],
+        [0, 0, 0, 0],
+      ],
+      "left"
+    );
+    expect(rowsFromTiles(result!.finalTiles)[0]).toEqual([8, 8, 0, 0]);
+  });
+
+  it("merges from the side being pushed toward", () => {
+    const { plan: result } = plan(
+      [
+        [2, 2, 2, 0],
+        [0, 0, 0, 0],
+        [0, 0, 0, 0],
+        [0, 0, 0, 0],
+      ],
+      "right"
+    );
+    expect(rowsFromTiles(result!.finalTiles)[0]).toEqual([0, 0, 2, 4]);
+  });
+
+  it("returns no plan for a move that changes nothing", () => {
+    const { plan: result, moved } = plan(
+      [
+        [2, 4, 0, 0],
+        [4, 2, 0, 0],
+        [0, 0, 0, 0],
+        [0, 0, 0, 0],
+      ],
+      "left"
+    );
+    expect(moved).toBe(false);
+    expect(result).toBeNull();
+  });
+});
+
+describe("applyMove", () => {
+  it("adds the merge score and spawns exactly one tile", () => {
+    const start = state([
+      [2, 2, 0, 0],
+      [0, 0, 0, 0],
+      [0, 0, 0, 0],
+      [0, 0, 0, 0],
+    ]);
+    const { state: next, events } = applyMove(start, "left", createRng("test"));
+    expect(next.score).toBe(4);
+    expect(next.tiles).toHaveLength(2);
+    expect(events.map((event) => event.type)).toEqual(["move", "merge", "spawn"]);
+  });
+
+  it("reports the tiles each merge came from", () => {
+    const start = state([
+      [0, 4, 0, 4],
+      [0, 0, 0, 0],
+      [0, 0, 0, 0],
+      [0, 0, 0, 0],
+    ]);
+    const { events } = applyMove(start, "left", createRng("test"));
+    const merge = events.find((event) => event.type === "merge");
+    expect(merge).toMatchObject({ value: 8, row: 0, col: 0 });
+    expect(merge?.type === "merge" && merge.tiles).toEqual(start.tiles);
+  });
+
+  it("leaves the state and rng untouched on a no-op move", () => {
+    const start = state([
+      [2, 0, 0, 0],
+      [0, 0, 0, 0],
+      [0, 0, 0, 0],
+      [0, 0, 0, 0],
+    ]);
+    const rng = createRng("test");
+    const before = rng.state;
+    const result = applyMove(start, "left", rng);
+    expect(result.plan).toBeNull();
+    expect(result.state).toBe(start);
+    expect(result.events).toEqual([]);
+    expect(rng.state).toBe(before);
+  });
+
+  it("is deterministic for the same seed", () => {
+    const start = state([
+      [2, 0, 0, 2],
+      [0, 0, 0, 0],
+      [0, 0, 0, 0],
+      [0, 0, 0, 0],
+    ]);
+    const first = applyMove(start, "left", createRng("seed"));
+    const second = applyMove(start, "left", createRng("seed"));
+    expect(first.state.tiles).toEqual(second.state.tiles);
+  });
+
+  it("reports game over when the board locks up", () => {
+    const start = state([
+      [2, 4, 2, 4],
+      [4, 2, 4, 2],
+      [2, 4, 2, 8],
+      [0, 16, 32, 64],
+    ]);
+    const { state: next, events } = applyMove(start, "left", createRng("test"));
+    expect(isGameOver(next)).toBe(true);
+    expect(events[events.length - 1]).toEqual({ type: "gameOver" });
+  });
+});
+
+describe("hasMoves", () => {
+  it("is true while a cell is empty", () => {
+    expect(
+      hasMoves(
+        gridFromTiles(
+          tilesFromRows([
+            [2, 4, 2, 4],
+            [4, 2, 4, 2],
+            [2, 4, 2, 4],
+            [4, 2, 4, 0],
+          ]),
+          SIZE
+        )
+      )
+    ).toBe(true);
+  });
+
+  it("is true on a full board with an adjacent pair", () => {
+    expect(
+      hasMoves(
+        gridFromTiles(
+          tilesFromRows([
+            [2, 4, 2, 4],
+            [4, 2, 4, 2],
+            [2, 4, 2, 4],
+            [4, 2, 2, 8],
+          ]),
+          SIZE
+        )
+      )
+    ).toBe(true);
+  });
+
+  it("is false on a full board without pairs", () => {
+    expect(
+      hasMoves(
+        gridFromTiles(
+          tilesFromRows([
+            [2, 4, 2, 4],
+            [4, 2, 4, 2],
+            [2, 4, 2, 4],
+            [4, 2, 4, 2],
+          ]),
+          SIZE
+        )
+      )
+    ).toBe(false);
+  });
+});
+
+describe("special tiles", () => {
+  const blocker = (row: number, col: number): Spawn => ({ row, col, value: 0, kind: "blocker" });
+  const wildcard = (row: number, col: number): Spawn => ({ row, col, value: 0, kind: "wildcard" });
+
+  it("stops a slide at a blocker", () => {
+    const tiles = tilesFromSpawns([
+      { row: 0, col: 1, value: 2 },
+      blocker(0, 2),
+      { row: 0, col: 3, value: 2 },
+    ]);
+    const { plan: result } = planMove(tiles, "left", SIZE, () => 100);
+    expect(cellsOf(result!.finalTiles)).toEqual([
+      { row: 0, col: 0, value: 2, kind: undefined },
+      { row: 0, col: 2, value: 0, kind: "blocker" },
+      { row: 0, col: 3, value: 2, kind: undefined },
+    ]);
+    expect(result!.score).toBe(0);
+  });
+
+  it("merges a wildcard with a plain tile", () => {
+    const tiles = tilesFromSpawns([wildcard(0, 0), { row: 0, col: 1, value: 4 }]);
+    const { plan: result } = planMove(tiles, "left", SIZE, () => 100);
+    expect(cellsOf(result!.finalTiles)).toEqual([{ row: 0, col: 0, value: 8, kind: undefined }]);
+    expect(result!.score).toBe(8);
+  });
+
+  it("never merges two wildcards", () => {
+    const tiles = tilesFromSpawns([wildcard(0, 1), wildcard(0, 2)]);
+    const { plan: result } = planMove(tiles, "left", SIZE, () => 100);
+    expect(cellsOf(result!.finalTiles)).toEqual([
+      { row: 0, col: 0, value: 0, kind: "wildcard" },
+      { row: 0, col: 1, value: 0, kind: "wildcard" },
+    ]);
+    expect(planMove(result!.finalTiles, "left", SIZE, () => 100).plan).toBeNull();
+  });
+
+  it("clears the neighbours of a merged bomb and reports them", () => {
+    const start: GameState = {
+      tiles: tilesFromSpawns([
+        { row: 0, col: 0, value: 4 },
+        { row: 1, col: 0, value: 2, kind: "bomb" },
+        { row: 1, col: 1, value: 2 },
+        { row: 2, col: 1, value: 8 },
+        { row: 3, col: 3, value: 16 },
+      ]),
+      score: 0,
+      size: SIZE,
+      nextId: 100,
+    };
+    const { plan: result, events } = applyMove(start, "left", createRng("bomb"));
+    expect(cellsOf(result!.cleared)).toEqual([
+      { row: 0, col: 0, value: 4, kind: undefined },
+      { row: 2, col: 0, value: 8, kind: undefined },
+    ]);
+    expect(cellsOf(result!.finalTiles)).toEqual([
+      { row: 1, col: 0, value: 4, kind: undefined },
+      { row: 3, col: 0, value: 16, kind: undefined },
+    ]);
+    expect(events).toContainEqual({ type: "clear", tiles: result!.cleared });
+  });
+
+  it("finds no moves on a full board of blockers and wildcards", () => {
+    const grid = [
+      [BLOCKER_CELL, WILDCARD_CELL, BLOCKER_CELL, WILDCARD_CELL],
+      [WILDCARD_CELL, WILDCARD_CELL, BLOCKER_CELL, BLOCKER_CELL],
+      [BLOCKER_CELL, BLOCKER_CELL, WILDCARD_CELL, WILDCARD_CELL],
+      [WILDCARD_CELL, BLOCKER_CELL, WILDCARD_CELL, BLOCKER_CELL],
+    ];
+    expect(hasMoves(grid)).toBe(false);
+    expect(hasMoves(grid.map((row, r) => (r === 3 ? [...row.slice(0, 3), 2] : row)))).toBe(true);
+  });
+});
@@ -0,0 +1,392 @@
+import { type Rng, nextRandom } from "./rng";
+
+export type Grid = number[][];
+
+export type Direction = "left" | "right" | "up" | "down";
+
+export type TileKind = "blocker" | "wildcard" | "bomb";
+
+export type Tile = {
+  id: number;
+  value: number;
+  row: number;
+  col: number;
+  kind?: TileKind;
+  merged?: boolean;
+  isNew?: boolean;
+  moving?: boolean;
+};
+
+export type MovePlan = {
+  targets: Map<number, { row: number; col: number }>;
+  finalTiles: Tile[];
+  score: number;
+  steps: number;
+  direction: Direction;
+  from: Tile[];
+  cleared: Tile[];
+};
+
+export type Spawn = {
+  row: number;
+  col: number;
+  value: number;
+  kind?: TileKind;
+};
+
+export type SpecialRates = Record<TileKind, number>;
+
+export type GameState = {
+  tiles: Tile[];
+  score: number;
+  size: number;
+  nextId: number;
+};
+
+export type GameEvent =
+  | { type: "move"; direction: Direction; score: number }
+  | { type: "merge"; value: number; row: number; col: number; tiles: Tile[] }
+  | { type: "spawn"; tile: Tile }
+  | { type: "clear"; tiles: Tile[] }
+  | { type: "gameOver" };
+
+export type SettleMove = (state: GameState) => GameState;
+
+export type MoveResult = {
+  state: GameState;
+  events: GameEvent[];
+  plan: MovePlan | null;
+};
+
+export const TILE_KINDS: TileKind[] = ["blocker", "wildcard", "bomb"];
+
+export const SPECIAL_TILE_RATES: SpecialRates = { blocker: 0.03, wildcard: 0.04, bomb: 0.03 };
+
+export const BLOCKER_CELL = -1;
+export const WILDCARD_CELL = -2;
+
+export const isTileKind = (value: unknown): value is TileKind =>
+  typeof value === "string" && TILE_KINDS.includes(value as TileKind);
+
+const cellValue = (tile: Tile): number =>
+  tile.kind === "blocker" ? BLOCKER_CELL : tile.kind === "wildcard" ? WILDCARD_CELL : tile.value;
+
+const isMovableCell = (value: number): boolean => value > 0 || value === WILDCARD_CELL;
+
+const canMergeCells = (a: number, b: number): boolean =>
+  a > 0 && b > 0
+    ? a === b
+    : (a === WILDCARD_CELL && b > 0) || (b === WILDCARD_CELL && a > 0);
+
+export const createEmptyGrid = (size: number): Grid =>
+  Array.from({ length: size }, () => Array.from({ length: size }, () => 0));
+
+export const getEmptyCells = (grid: Grid): Array<{ r: number; c: number }> => {
+  const cells: Array<{ r: number; c: number }> = [];
+  for (let r = 0; r < grid.length; r += 1) {
+    for (let c = 0; c < grid.length; c += 1) {
+      if (grid[r][c] === 0) cells.push({ r, c });
+    }
+  }
+  return cells;
+};
+
+export const gridFromTiles = (tiles: Tile[], size: number): Grid => {
+  const grid = createEmptyGrid(size);
+  for (const tile of tiles) {
+    grid[tile.row][tile.col] = cellValue(tile);
+  }
+  return grid;
+};
+
+const pickSpecialKind = (
+  tiles: Tile[],
+  size: number,
+  rates: SpecialRates,
+  roll: number
+): TileKind | undefined => {
+  let threshold = 0;
+  for (const kind of TILE_KINDS) {
+    threshold += rates[kind];
+    if (roll >= threshold) continue;
+    const blockers = tiles.filter((tile) => tile.kind === "blocker").length;
+    return kind === "blocker" && blockers >= size - 2 ? undefined : kind;
+  }
+  return undefined;
+};
+
+export const addRandomTile = (
+  tiles: Tile[],
+  size: number,
+  createId: () => number,
+  rng: Rng,
+  specials?: SpecialRates
+): Tile[] => {
+  const grid = gridFromTiles(tiles, size);
+  const empty = getEmptyCells(grid);
+  if (empty.length === 0) return tiles;
+  const pick = empty[Math.floor(nextRandom(rng) * empty.length)];
+  const value = nextRandom(rng) < 0.9 ? 2 : 4;
+  const kind = specials ? pickSpecialKind(tiles, size, specials, nextRandom(rng)) : undefined;
+  return [
+    ...tiles,
+    {
+      id: createId(),
+      value: kind === "blocker" || kind === "wildcard" ? 0 : value,
+      row: pick.r,
+      col: pick.c,
+      ...(kind ? { kind } : {}),
+      isNew: true,
+    },
+  ];
+};
+
+export const createStartTiles = (size: number, createId: () => number, rng: Rng): Tile[] =>
+  addRandomTile(addRandomTile([], size, createId, rng), size, createId, rng);
+
+const canShift = (a: number, b: number): boolean =>
+  (a === 0 && isMovableCell(b)) || (b === 0 && isMovableCell(a)) || canMergeCells(a, b);
+
+export const hasMoves = (grid: Grid): boolean => {
+  const size = grid.length;
+  for (let r = 0; r < size; r += 1) {
+    for (let c = 0; c < size; c += 1) {
+      const value = grid[r][c];
+      if (r < size - 1 && canShift(value, grid[r + 1][c])) return true;
+      if (c < size - 1 && canShift(value, grid[r][c + 1])) return true;
+    }
+  }
+  return false;
+};
+
+export const settleTiles = (tiles: Tile[]): Tile[] =>
+  tiles.map((tile) => ({ ...tile, merged: false, isNew: false, moving: false }));
+
+const mergedValue = (first: Tile, tile: Tile): number | null => {
+  const wild = tile.kind === "wildcard";
+  if (first.kind === "wildcard") return wild ? null : tile.value * 2;
+  if (wild) return first.value * 2;
+  return first.value === tile.value ? first.value * 2 : null;
+};
+
+export const planMove = (
+  tiles: Tile[],
+  direction: Direction,
+  size: number,
+  createId: () => number
+): { plan: MovePlan | null; moved: boolean } => {
+  let score = 0;
+  let moved = false;
+  let maxDistance = 0;
+  const targets = new Map<number, { row: number; col: number }>();
+  const finalTiles: Tile[] = [];
+  const explosions: Array<{ row: number; col: number }> = [];
+
+  const isHorizontal = direction === "left" || direction === "right";
+  const forward = direction === "left" || direction === "up";
+
+  for (let line = 0; line < size; line += 1) {
+    const tilesInLine = tiles
+      .filter((tile) => (isHorizontal ? tile.row === line : tile.col === line))
+      .sort((a, b) =>
+        forward
+          ? isHorizontal
+            ? a.col - b.col
+            : a.row - b.row
+          : isHorizontal
+          ? b.col - a.col
+          : b.row - a.row
+      );
+
+    let groups: Array<{ tiles: Tile[]; value: number; merged: boolean }> = [];
+    let slot = 0;
+
+    const placeGroups = () => {
+      groups.forEach((group, index) => {
+        const position = forward ? slot + index : size - 1 - slot - index;
+        const row = isHorizontal ? line : position;
+        const col = isHorizontal ? position : line;
+
+        for (const tile of group.tiles) {
+          targets.set(tile.id, { row, col });
+          const distance = Math.abs(tile.row - row) + Math.abs(tile.col - col);
+          maxDistance = Math.max(maxDistance, distance);
+          if (distance > 0) moved = true;
+        }
+
+        if (group.merged) {
+          finalTiles.push({
+            id: createId(),
+            value: group.value,
+            row,
+            col,
+            merged: true,
+          });
+          if (group.tiles.some((tile) => tile.kind === "bomb")) explosions.push({ row, col });
+        } else {
+          const tile = group.tiles[0];
+          finalTiles.push({
+            ...tile,
+            row,
+            col,
+            merged: false,
+            isNew: false,
+            moving: false,
+          });
+        }
+      });
+      groups = [];
+    };
+
+    for (const tile of tilesInLine) {
+      if (tile.kind === "blocker") {
+        placeGroups();
+        const position = isHorizontal ? tile.col : tile.row;
+        slot = (forward ? position : size - 1 - position) + 1;
+        targets.set(tile.id, { row: tile.row, col: tile.col });
+        finalTiles.push({ ...tile, merged: false, isNew: false, moving: false });
+        continue;
+      }
+      const last = groups[groups.length - 1];
+      const value = last && !last.merged ? mergedValue(last.tiles[0], tile) : null;
+      if (last && value !== null) {
+        last.tiles.push(tile);
+        last.value = value;
+        last.merged = true;
+        score += value;
+        moved = true;
+      } else {
+        groups.push({ tiles: [tile], value: tile.value, merged: false });
+      }
+    }
+
+    placeGroups();
+  }
+
+  const cleared = finalTiles.filter((tile) =>
+    explosions.some(
+      ({ row, col }) =>
+        (tile.row !== row || tile.col !== col) &&
+        Math.abs(tile.row - row) <= 1 &&
+        Math.abs(tile.col - col) <= 1
+    )
+  );
+
+  if (!moved) return { plan: null, moved: false };
+
+  return {
+    plan: {
+      targets,
+      finalTiles: finalTiles.filter((tile) => !cleared.includes(tile)),
+      score,
+      steps: Math.max(maxDistance, 1),
+      direction,
+      from: tiles,
+      cleared,
+    },
+    moved: true,
+  };
+};
+
+const idCounter = (start: number) => {
+  let next = start;
+  return {
+    createId: () => next++,
+    peek: () => next,
+  };
+};
+
+export const createGame = (size: number, rng: Rng, nextId = 1): GameState => {
+  const ids = idCounter(nextId);
+  return {
+    tiles: createStartTiles(size, ids.createId, rng),
+    score: 0,
+    size,
+    nextId: ids.peek(),
+  };
+};
+
+export const createGameFromSpawns = (
+  spawns: Spawn[],
+  size: number,
+  score = 0,
+  nextId = 1
+): GameState => {
+  const ids = idCounter(nextId);
+  return {
+    tiles: spawns.map((spawn) => ({ id: ids.createId(), ...spawn, isNew: true })),
+    score,
+    size,
+    nextId: ids.peek(),
+  };
+};
+
+export const isGameOver = (state: GameState): boolean =>
+  !hasMoves(gridFromTiles(state.tiles, state.size));
+
+const resolveMove = (
+  state: GameState,
+  direction: Direction,
+  spawn: (tiles: Tile[], createId: () => number) => Tile[],
+  settle?: SettleMove
+): MoveResult => {
+  const ids = idCounter(state.nextId);
+  const { plan } = planMove(state.tiles, direction, state.size, ids.createId);
+  if (!plan) return { state, events: [], plan: null };
+
+  const events: GameEvent[] = [{ type: "move", direction, score: plan.score }];
+  for (const tile of plan.finalTiles) {
+    if (!tile.merged) continue;
+    const sources = plan.from.filter((source) => {
+      const target = plan.targets.get(source.id);
+      return target?.row === tile.row && target.col === tile.col;
+    });
+    events.push({ type: "merge", value: tile.value, row: tile.row, col: tile.col, tiles: sources });
+  }
+  if (plan.cleared.length > 0) events.push({ type: "clear", tiles: plan.cleared });
+
+  const tiles = spawn(plan.finalTiles, ids.createId);
+  if (tiles.length > plan.finalTiles.length) {
+    events.push({ type: "spawn", tile: tiles[tiles.length - 1] });
+  }
+
+  const spawned: GameState = {
+    tiles,
+    score: state.score + plan.score,
+    size: state.size,
+    nextId: ids.peek(),
+  };
+  const next = settle ? settle(spawned) : spawned;
+  const cleared = spawned.tiles.filter((tile) => !next.tiles.includes(tile));
+  if (cleared.length > 0) events.push({ type: "clear", tiles: cleared });
+  if (isGameOver(next)) events.push({ type: "gameOver" });
+
+  return { state: next, events, plan };
+};
+
+export const applyMove = (
+  state: GameState,
+  direction: Direction,
+  rng: Rng,
+  settle?: SettleMove,
+  specials?: SpecialRates
+): MoveResult =>
+  resolveMove(
+    state,
+    direction,
+    (tiles, createId) => addRandomTile(tiles, state.size, createId, rng, specials),
+    settle
+  );
+
+export const applyRecordedMove = (
+  state: GameState,
+  direction: Direction,
+  spawn: Spawn | null,
+  settle?: SettleMove
+): MoveResult =>
+  resolveMove(
+    state,
+    direction,
+    (tiles, createId) => (spawn ? [...tiles, { id: createId(), ...spawn, isNew: true }] : tiles),
+    settle
+  );
@@ -0,0 +1,65 @@
+import type { CheatAction } from "./cheats";
+import type { Direction, GameEvent, Tile } from "./engine";
+import type { GameMode } from "./modes";
+
+export type BusEvents = {
+  move: {
+    direction: Direction;
+    score: number;
+    scoreDelta: number;
+    moves: number;
+    tiles: Tile[];
+    size: number;
+    mergedValues: number[];
+    newValues: number[];
+    events: GameEvent[];
+  };
+  merge: { value: number; row: number; col: number; firstTime: boolean };
+  spawn: { tile: Tile };
+  newMaxTile: { value: number; previous: number };
+  gameOver: {
+    score: number;
+    maxTile: number;
+    moves: number;
+    mode: GameMode;
+    cheated: boolean;
+    assisted: boolean;
+  };
+  restart: { seed: string; size: number; mode: GameMode };
+  cheat: { action: CheatAction; delay: number };
+};
+
+export type BusEventType = keyof BusEvents;
+
+export type BusHandler<K extends BusEventType> = (payload: BusEvents[K]) => void;
+
+export type EventBus = {
+  on: <K extends BusEventType>(type: K, handler: BusHandler<K>) => () => void;
+  emit: <K extends BusEventType>(type: K, payload: BusEvents[K]) => void;
+};
+
+export const createEventBus = (): EventBus => {
+  const handlers: { [K in BusEventType]?: Set<BusHandler<K>> } = {};
+
+  const on = <K extends BusEventType>(type: K, handler: BusHandler<K>) => {
+    const set: Set<BusHandler<K>> = handlers[type] ?? new Set();
+    handlers[type] = set as (typeof handlers)[K];
+    set.add(handler);
+    return () => {
+      set.delete(handler);
+    };
+  };
+
+  const emit = <K extends BusEventType>(type: K, payload: BusEvents[K]) => {
+    const set: Set<BusHandler<K>> | undefined = handlers[type];
+    set?.forEach((handler) => {
+      try {
+        handler(payload);
+      } catch (error) {
+        console.error(`A "${type}" handler failed`, error);
+      }
+    });
+  };
+
+  return { on, emit };
+};
@@ -0,0 +1,10 @@
+export const downloadFile = (name: string, contents: string | Blob) => {
+  const blob =
+    typeof contents === "string" ? new Blob([contents], { type: "application/json" }) : contents;
+  const url = URL.createObjectURL(blob);
+  const link = document.createElement("a");
+  link.href = url;
+  link.download = name;
+  link.click();
+  URL.revokeObjectURL(url);
+};
@@ -0,0 +1,172 @@
+import { type RefObject, useEffect, useRef } from "react";
+import type { Direction } from "./engine";
+
+export type GestureOptions = {
+  deadZone: number;
+  flickVelocity: number;
+};
+
+type GesturePoint = {
+  x: number;
+  y: number;
+  time: number;
+};
+
+export const DEFAULT_GESTURE: GestureOptions = { deadZone: 24, flickVelocity: 0.6 };
+export const DEAD_ZONE_OPTIONS = [12, 24, 40, 64];
+export const FLICK_OPTIONS = [0.3, 0.6, 1];
+
+const GESTURE_KEY = "2048:gesture";
+const FAST_MODE_KEY = "2048:fast-mode";
+const FLICK_MIN_DISTANCE = 8;
+const STICK_THRESHOLD = 0.6;
+const DPAD_BUTTONS: Array<[number, Direction]> = [
+  [12, "up"],
+  [13, "down"],
+  [14, "left"],
+  [15, "right"],
+];
+
+export const detectSwipe = (
+  start: GesturePoint,
+  end: GesturePoint,
+  options: GestureOptions
+): Direction | null => {
+  const dx = end.x - start.x;
+  const dy = end.y - start.y;
+  const distance = Math.max(Math.abs(dx), Math.abs(dy));
+  const velocity = distance / Math.max(end.time - start.time, 1);
+  const isSwipe = distance >= options.deadZone;
+  const isFlick = distance >= FLICK_MIN_DISTANCE && velocity >= options.flickVelocity;
+  if (!isSwipe && !isFlick) return null;
+  if (Math.abs(dx) > Math.abs(dy)) return dx > 0 ? "right" : "left";
+  return dy > 0 ? "down" : "up";
+};
+
+export const useSwipeGestures = (
+  ref: RefObject<HTMLElement>,
+  onSwipe: (direction: Direction) => void,
+  options: GestureOptions
+) => {
+  const handlerRef = useRef(onSwipe);
+  handlerRef.current = onSwipe;
+
+  useEffect(() => {
+    const element = ref.current;
+    if (!element) return;
+    let start: (GesturePoint & { pointerId: number }) | null = null;
+
+    const handleDown = (event: PointerEvent) => {
+      if (!event.isPrimary || (event.pointerType === "mouse" && event.button !== 0)) return;
+      start = {
+        x: event.clientX,
+        y: event.clientY,
+        time: event.timeStamp,
+        pointerId: event.pointerId,
+      };
+      element.setPointerCapture(event.pointerId);
+    };
+
+    const handleUp = (event: PointerEvent) => {
+      if (!start || event.pointerId !== start.pointerId) return;
+      const end = { x: event.clientX, y: event.clientY, time: event.timeStamp };
+      const direction = detectSwipe(start, end, options);
+      start = null;
+      if (direction) handlerRef.current(direction);
+    };
+
+    const handleCancel = () => {
+      start = null;
+    };
+
+    element.addEventListener("pointerdown", handleDown);
+    element.addEventListener("pointerup", handleUp);
+    element.addEventListener("pointercancel", handleCancel);
+    return () => {
+      element.removeEventListener("pointerdown", handleDown);
+      element.removeEventListener("pointerup", handleUp);
+      element.removeEventListener("pointercancel", handleCancel);
+    };
+  }, [options, ref]);
+};
+
+const readGamepadDirection = (pad: Gamepad): Direction | null => {
+  for (const [index, direction] of DPAD_BUTTONS) {
+    if (pad.buttons[index]?.pressed) return direction;
+  }
+  const [x = 0, y = 0] = pad.axes;
+  if (Math.max(Math.abs(x), Math.abs(y)) < STICK_THRESHOLD) return null;
+  if (Math.abs(x) > Math.abs(y)) return x > 0 ? "right" : "left";
+  return y > 0 ? "down" : "up";
+};
+
+export const useGamepadDirections = (
+  onDirection: (direction: Direction, pad: number) => void
+) => {
+  const handlerRef = useRef(onDirection);
+  handlerRef.current = onDirection;
+
+  useEffect(() => {
+    if (typeof navigator === "undefined" || !navigator.getGamepads) return;
+    let frame = 0;
+    const held = new Map<number, Direction | null>();
+
+    const poll = () => {
+      for (const pad of navigator.getGamepads()) {
+        if (!pad) continue;
+        const direction = readGamepadDirection(pad);
+        if (direction && held.get(pad.index) !== direction) {
+          handlerRef.current(direction, pad.index);
+        }
+        held.set(pad.index, direction);
+      }
+      frame = window.requestAnimationFrame(poll);
+    };
+
+    const start = () => {
+      if (!frame) frame = window.requestAnimationFrame(poll);
+    };
+
+    window.addEventListener("gamepadconnected", start);
+    if (navigator.getGamepads().some(Boolean)) start();
+    return () => {
+      window.removeEventListener("gamepadconnected", start);
+      window.cancelAnimationFrame(frame);
+    };
+  }, []);
+};
+
+export const loadGestureOptions = (): GestureOptions => {
+  try {
+    const stored: unknown = JSON.parse(window.localStorage.getItem(GESTURE_KEY) ?? "null");
+    if (!stored || typeof stored !== "object") return DEFAULT_GESTURE;
+    const { deadZone, flickVelocity } = stored as Record<string, unknown>;
+    return {
+      deadZone: typeof deadZone === "number" ? deadZone : DEFAULT_GESTURE.deadZone,
+      flickVelocity:
+        typeof flickVelocity === "number" ? flickVelocity : DEFAULT_GESTURE.flickVelocity,
+    };
+  } catch {
+    return DEFAULT_GESTURE;
+  }
+};
+
+export const saveGestureOptions = (options: GestureOptions) => {
+  try {
+    window.localStorage.setItem(GESTURE_KEY, JSON.stringify(options));
+  } catch {}
+};
+
+export const loadFastMode = (): boolean => {
+  try {
+    return window.localStorage.getItem(FAST_MODE_KEY) !== "off";
+  } catch {
+    return true;
+  }
+};
+
+export const saveFastMode = (enabled: boolean) => {
+  try {
+    window.localStorage.setItem(FAST_MODE_KEY, enabled ? "on" : "off");
+  } catch {}
+};
@@ -0,0 +1,141 @@
+import { describe, expect, it } from "vitest";
+import { type Direction, applyMove, createGame } from "./engine";
+import { type ScoreSubmission, parseSubmission, verifySubmission } from "./leaderboard";
+import { type GameMode, MODE_RULES, MOVE_LIMIT, TIME_ATTACK_MS } from "./modes";
+import { createRng } from "./rng";
+import { clockSpan, dealClock, stopClock } from "./serverClock";
+
+process.env.LEADERBOARD_SECRET = "leaderboard-test-secret";
+
+const DIRECTIONS: Direction[] = ["left", "down", "right", "up"];
+
+const playGame = (seed: string, mode: GameMode, moveCount: number): ScoreSubmission => {
+  const rng = createRng(seed);
+  const { afterMove } = MODE_RULES[mode];
+  let state = createGame(4, rng);
+  const moves: Direction[] = [];
+  const tryMove = (direction: Direction): boolean => {
+    const { state: next, plan } = applyMove(state, direction, rng, afterMove);
+    if (plan) state = next;
+    return plan !== null;
+  };
+  while (moves.length < moveCount) {
+    const direction = DIRECTIONS.find(tryMove);
+    if (!direction) break;
+    moves.push(direction);
+  }
+  return {
+    name: "Tester",
+    seed,
+    size: 4,
+    mode,
+    specialTiles: false,
+    moves,
+    score: state.score,
+    maxTile: state.tiles.reduce((value, tile) => Math.max(value, tile.value), 0),
+  };
+};
+
+describe("verifySubmission", () => {
+  const game = playGame("verify-seed", "moveLimited", MOVE_LIMIT);
+
+  it("accepts a game that replays from its seed", () => {
+    const result = verifySubmission(game, 1000);
+    expect(result.ok).toBe(true);
+    expect(result.ok && result.entry).toMatchObject({
+      name: "Tester",
+      score: game.score,
+      maxTile: game.maxTile,
+      moves: game.moves.length,
+    });
+  });
+
+  it("rejects a tampered move list", () => {
+    const moves = [...game.moves];
+    moves[10] = moves[10] === "left" ? "right" : "left";
+    expect(verifySubmission({ ...game, moves }).ok).toBe(false);
+  });
+
+  it("rejects a claimed score or tile the moves don't produce", () => {
+    expect(verifySubmission({ ...game, score: game.score + 4 }).ok).toBe(false);
+    expect(verifySubmission({ ...game, maxTile: game.maxTile * 2 }).ok).toBe(false);
+  });
+
+  it("rejects unfinished and unranked games", () => {
+    expect(verifySubmission(playGame("verify-seed", "moveLimited", 50))).toEqual({
+      ok: false,
+      error: "Only finished games can be submitted.",
+    });
+    expect(verifySubmission(playGame("zen-seed", "zen", 20))).toEqual({
+      ok: false,
+      error: "Zen games aren't ranked.",
+    });
+  });
+});
+
+describe("parseSubmission", () => {
+  const raw = playGame("parse-seed", "classic", 5);
+
+  it("keeps a well-formed submission", () => {
+    expect(parseSubmission(raw)).toMatchObject({ seed: "parse-seed", size: 4, mode: "classic" });
+  });
+
+  it.each([
+    ["a size below the range", { size: 2 }],
+    ["a size above the range", { size: 9 }],
+    ["a fractional size", { size: 4.5 }],
+    ["an unknown mode", { mode: "hyper" }],
+    ["an inherited mode name", { mode: "constructor" }],
+    ["an unknown direction", { moves: ["left", "sideways"] }],
+    ["an empty move list", { moves: [] }],
+  ])("rejects %s", (_, change) => {
+    expect(parseSubmission({ ...raw, ...change })).toBeNull();
+  });
+});
+
+describe("time attack", () => {
+  const timedGame = async (stopAfterMs: number) => {
+    const { seed, token } = await dealClock(0);
+    const game = playGame(seed, "timeAttack", 30);
+    const stopped = await stopClock(token, seed, game.moves, stopAfterMs);
+    return { game, token, stopped: stopped ?? "" };
+  };
+
+  const verifyTimed = async (game: ScoreSubmission, token: string) => {
+    const clock = await clockSpan(token, game.seed, game.moves);
+    return verifySubmission({ ...game, clockToken: token }, TIME_ATTACK_MS, clock);
+  };
+
+  it("accepts a game stopped within the time limit", async () => {
+    const { game, stopped } = await timedGame(TIME_ATTACK_MS + 1000);
+    expect((await verifyTimed(game, stopped)).ok).toBe(true);
+  });
+
+  it("rejects a game stopped well after the time limit", async () => {
+    const { game, stopped } = await timedGame(TIME_ATTACK_MS + 60 * 1000);
+    expect(await verifyTimed(game, stopped)).toEqual({
+      ok: false,
+      error: "This game ran past its time limit.",
+    });
+  });
+
+  it("rejects a clock that was never stopped", async () => {
+    const { game, token } = await timedGame(TIME_ATTACK_MS);
+    expect((await verifyTimed(game, token)).ok).toBe(false);
+  });
+
+  it("rejects a forged or reused clock token", async () => {
+    const { game, stopped } = await timedGame(TIME_ATTACK_MS);
+    const [startedAt, , signature] = stopped.split(".");
+    const forged = `${startedAt}.${TIME_ATTACK_MS - 1000}.${signature}`;
+    expect((await verifyTimed(game, forged)).ok).toBe(false);
+    const other = playGame(game.seed, "timeAttack", 20);
+    expect((await verifyTimed(other, stopped)).ok).toBe(false);
+  });
+
+  it("only stops clocks the server dealt for that seed", async () => {
+    const { seed, token } = await dealClock(0);
+    expect(await stopClock(token, `${seed}x`, ["left"], 1000)).toBeNull();
+    expect(await stopClock(`0.${"0".repeat(64)}`, seed, ["left"], 1000)).toBeNull();
+  });
+});
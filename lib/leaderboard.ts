@@ -0,0 +1,212 @@
+import {
+  type Direction,
+  type GameState,
+  SPECIAL_TILE_RATES,
+  applyMove,
+  createGame,
+  isGameOver,
+} from "./engine";
+import { type GameMode, MODE_RULES, isGameMode } from "./modes";
+import { createRng } from "./rng";
+
+export type ScoreSubmission = {
+  name: string;
+  seed: string;
+  size: number;
+  mode: GameMode;
+  specialTiles: boolean;
+  moves: Direction[];
+  score: number;
+  maxTile: number;
+  clockToken?: string;
+};
+
+export type LeaderboardEntry = {
+  id: string;
+  name: string;
+  seed: string;
+  size: number;
+  mode: GameMode;
+  score: number;
+  maxTile: number;
+  moves: number;
+  submittedAt: number;
+};
+
+export type RankedEntry = LeaderboardEntry & { rank: number };
+
+export type ClockSpan = {
+  startedAt: number;
+  endedAt: number;
+};
+
+export type VerifyResult =
+  | { ok: true; entry: Omit<LeaderboardEntry, "id"> }
+  | { ok: false; error: string };
+
+export const NAME_MAX_LENGTH = 20;
+export const LEADERBOARD_LIMIT = 10;
+
+const MIN_SIZE = 3;
+const MAX_SIZE = 8;
+const MAX_MOVES = 100000;
+const CLOCK_SLACK_MS = 5000;
+const PLAYER_NAME_KEY = "2048:player-name";
+
+const DIRECTION_SET = new Set<string>(["left", "right", "up", "down"]);
+
+export const normalizeName = (name: string): string =>
+  name.trim().replace(/\s+/g, " ").slice(0, NAME_MAX_LENGTH);
+
+export const parseMoves = (raw: unknown): Direction[] | null =>
+  Array.isArray(raw) &&
+  raw.length > 0 &&
+  raw.length <= MAX_MOVES &&
+  raw.every((move) => typeof move === "string" && DIRECTION_SET.has(move))
+    ? (raw as Direction[])
+    : null;
+
+export const isStoppedClock = (token: string): boolean => token.split(".").length === 3;
+
+export const parseSubmission = (raw: unknown): ScoreSubmission | null => {
+  if (!raw || typeof raw !== "object") return null;
+  const data = raw as Record<string, unknown>;
+  const { name, seed, size, mode, score, maxTile } = data;
+  const moves = parseMoves(data.moves);
+  if (typeof name !== "string" || !normalizeName(name)) return null;
+  if (typeof seed !== "string" || !seed) return null;
+  if (typeof size !== "number" || !Number.isInteger(size)) return null;
+  if (size < MIN_SIZE || size > MAX_SIZE || !isGameMode(mode)) return null;
+  if (typeof score !== "number" || typeof maxTile !== "number") return null;
+  if (!moves) return null;
+  return {
+    name: normalizeName(name),
+    seed,
+    size,
+    mode,
+    specialTiles: data.specialTiles === true,
+    moves,
+    score,
+    maxTile,
+    clockToken: typeof data.clockToken === "string" ? data.clockToken : undefined,
+  };
+};
+
+export const simulateGame = (submission: ScoreSubmission): GameState | null => {
+  const rng = createRng(submission.seed);
+  const { afterMove } = MODE_RULES[submission.mode];
+  const specials = submission.specialTiles ? SPECIAL_TILE_RATES : undefined;
+  let state = createGame(submission.size, rng);
+  for (const direction of submission.moves) {
+    const { state: next, plan } = applyMove(state, direction, rng, afterMove, specials);
+    if (!plan) return null;
+    state = next;
+  }
+  return state;
+};
+
+export const verifySubmission = (
+  submission: ScoreSubmission,
+  now = Date.now(),
+  clock: ClockSpan | null = null
+): VerifyResult => {
+  const rules = MODE_RULES[submission.mode];
+  if (!rules.ranked) return { ok: false, error: `${rules.name} games aren't ranked.` };
+  let elapsedMs = 0;
+  if (rules.timeLimitMs !== undefined) {
+    if (!clock) return { ok: false, error: "Timed games need a stopped server clock." };
+    elapsedMs = clock.endedAt - clock.startedAt;
+    if (elapsedMs > rules.timeLimitMs + CLOCK_SLACK_MS) {
+      return { ok: false, error: "This game ran past its time limit." };
+    }
+  }
+  if (rules.moveLimit !== undefined && submission.moves.length > rules.moveLimit) {
+    return { ok: false, error: "Too many moves for this mode." };
+  }
+  const state = simulateGame(submission);
+  if (!state) return { ok: false, error: "The move list doesn't replay from this seed." };
+  const maxTile = state.tiles.reduce((value, tile) => Math.max(value, tile.value), 0);
+  if (state.score !== submission.score || maxTile !== submission.maxTile) {
+    return { ok: false, error: "The replayed score doesn't match." };
+  }
+  const finished = rules.isFinished({
+    canMove: !isGameOver(state),
+    moves: submission.moves.length,
+    elapsedMs,
+  });
+  if (!finished) return { ok: false, error: "Only finished games can be submitted." };
+  return {
+    ok: true,
+    entry: {
+      name: submission.name,
+      seed: submission.seed,
+      size: submission.size,
+      mode: submission.mode,
+      score: state.score,
+      maxTile,
+      moves: submission.moves.length,
+      submittedAt: now,
+    },
+  };
+};
+
+export const compareEntries = (a: LeaderboardEntry, b: LeaderboardEntry): number => {
+  const { result } = MODE_RULES[a.mode];
+  return result(b) - result(a) || b.score - a.score || a.submittedAt - b.submittedAt;
+};
+
+export const rankEntries = (entries: LeaderboardEntry[], mode: GameMode): RankedEntry[] =>
+  entries
+    .filter((entry) => entry.mode === mode)
+    .sort(compareEntries)
+    .map((entry, index) => ({ ...entry, rank: index + 1 }));
+
+const requestJson = async <T>(url: string, init?: RequestInit): Promise<T> => {
+  const response = await fetch(url, init);
+  const data = await response.json();
+  if (!response.ok) {
+    throw new Error(typeof data?.error === "string" ? data.error : "Request failed");
+  }
+  return data as T;
+};
+
+export const fetchLeaderboard = (mode: GameMode, limit = LEADERBOARD_LIMIT) =>
+  requestJson<{ entries: RankedEntry[] }>(`/api/scores?mode=${mode}&limit=${limit}`);
+
+export const fetchPlayerScores = (name: string) =>
+  requestJson<{ entries: RankedEntry[] }>(`/api/scores/${encodeURIComponent(name)}`);
+
+export const startClock = () =>
+  requestJson<{ seed: string; token: string }>("/api/clock", {
+    method: "POST",
+    headers: { "Content-Type": "application/json" },
+    body: JSON.stringify({}),
+  });
+
+export const stopClock = (token: string, seed: string, moves: Direction[]) =>
+  requestJson<{ token: string }>("/api/clock", {
+    method: "POST",
+    headers: { "Content-Type": "application/json" },
+    body: JSON.stringify({ token, seed, moves }),
+  });
+
+export const submitScore = (submission: ScoreSubmission) =>
+  requestJson<{ entry: RankedEntry }>("/api/scores", {
+    method: "POST",
+    headers: { "Content-Type": "application/json" },
+    body: JSON.stringify(submission),
+  });
+
+export const loadPlayerName = (): string => {
+  try {
+    return window.localStorage.getItem(PLAYER_NAME_KEY) ?? "";
+  } catch {
+    return "";
+  }
+};
+
+export const savePlayerName = (name: string) => {
+  try {
+    window.localStorage.setItem(PLAYER_NAME_KEY, name);
+  } catch {}
+};
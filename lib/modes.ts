@@ -0,0 +1,93 @@
+import { type SettleMove, type Tile, isGameOver } from "./engine";
+
+export type GameMode = "classic" | "timeAttack" | "moveLimited" | "zen";
+
+export type ModeProgress = {
+  canMove: boolean;
+  moves: number;
+  elapsedMs: number;
+};
+
+export type ModeRules = {
+  id: GameMode;
+  name: string;
+  description: string;
+  timeLimitMs?: number;
+  moveLimit?: number;
+  showsWin: boolean;
+  ranked: boolean;
+  isFinished: (progress: ModeProgress) => boolean;
+  afterMove?: SettleMove;
+  result: (game: { score: number; maxTile: number }) => number;
+  resultLabel: string;
+};
+
+export const TIME_ATTACK_MS = 3 * 60 * 1000;
+export const MOVE_LIMIT = 100;
+
+const byScore = ({ score }: { score: number }) => score;
+
+const clearLowestRow = (tiles: Tile[], size: number): Tile[] => {
+  let lowest = 0;
+  let lowestSum = Infinity;
+  for (let row = 0; row < size; row += 1) {
+    const sum = tiles.filter((tile) => tile.row === row).reduce((total, t) => total + t.value, 0);
+    if (sum < lowestSum) {
+      lowest = row;
+      lowestSum = sum;
+    }
+  }
+  return tiles.filter((tile) => tile.row !== lowest);
+};
+
+export const MODE_RULES: Record<GameMode, ModeRules> = {
+  classic: {
+    id: "classic",
+    name: "Classic",
+    description: "Reach the target tile, then keep going if you like.",
+    showsWin: true,
+    ranked: true,
+    isFinished: ({ canMove }) => !canMove,
+    result: byScore,
+    resultLabel: "Best",
+  },
+  timeAttack: {
+    id: "timeAttack",
+    name: "Time Attack",
+    description: "Highest score in 3 minutes. The clock starts when the board is dealt.",
+    timeLimitMs: TIME_ATTACK_MS,
+    showsWin: false,
+    ranked: true,
+    isFinished: ({ canMove, elapsedMs }) => !canMove || elapsedMs >= TIME_ATTACK_MS,
+    result: byScore,
+    resultLabel: "Best",
+  },
+  moveLimited: {
+    id: "moveLimited",
+    name: "Move Limit",
+    description: `Best tile within ${MOVE_LIMIT} moves.`,
+    moveLimit: MOVE_LIMIT,
+    showsWin: false,
+    ranked: true,
+    isFinished: ({ canMove, moves }) => !canMove || moves >= MOVE_LIMIT,
+    result: ({ maxTile }) => maxTile,
+    resultLabel: "Best Tile",
+  },
+  zen: {
+    id: "zen",
+    name: "Zen",
+    description: "No game over. A blocked board clears its lightest row.",
+    showsWin: false,
+    ranked: false,
+    isFinished: () => false,
+    afterMove: (state) =>
+      isGameOver(state) ? { ...state, tiles: clearLowestRow(state.tiles, state.size) } : state,
+    result: byScore,
+    resultLabel: "Best",
+  },
+};
+
+export const GAME_MODES = Object.keys(MODE_RULES) as GameMode[];
+
+export const isGameMode = (value: unknown): value is GameMode =>
+  typeof value === "string" && GAME_MODES.includes(value as GameMode);
@@ -0,0 +1,61 @@
+import type { EventBus } from "./events";
+
+export type GamePlugin = {
+  id: string;
+  name: string;
+  setup: (bus: EventBus) => void | (() => void);
+};
+
+type PluginHost = {
+  bus: EventBus;
+  cleanups: Map<string, () => void>;
+};
+
+const plugins = new Map<string, GamePlugin>();
+const hosts = new Set<PluginHost>();
+
+const setupPlugin = (host: PluginHost, plugin: GamePlugin) => {
+  try {
+    const cleanup = plugin.setup(host.bus);
+    if (typeof cleanup === "function") host.cleanups.set(plugin.id, cleanup);
+  } catch (error) {
+    console.error(`Plugin "${plugin.id}" failed to set up`, error);
+  }
+};
+
+const teardownPlugin = (host: PluginHost, id: string) => {
+  const cleanup = host.cleanups.get(id);
+  host.cleanups.delete(id);
+  try {
+    cleanup?.();
+  } catch (error) {
+    console.error(`Plugin "${id}" failed to clean up`, error);
+  }
+};
+
+/**
+ * Adds a plugin to every running game and to games started later. Registering an id again
+ * replaces the earlier plugin. Built-in plugins are registered in `plugins/index.ts`.
+ */
+export const registerPlugin = (plugin: GamePlugin): (() => void) => {
+  if (plugins.has(plugin.id)) hosts.forEach((host) => teardownPlugin(host, plugin.id));
+  plugins.set(plugin.id, plugin);
+  hosts.forEach((host) => setupPlugin(host, plugin));
+  return () => {
+    if (plugins.get(plugin.id) !== plugin) return;
+    plugins.delete(plugin.id);
+    hosts.forEach((host) => teardownPlugin(host, plugin.id));
+  };
+};
+
+export const registeredPlugins = (): GamePlugin[] => Array.from(plugins.values());
+
+export const installPlugins = (bus: EventBus): (() => void) => {
+  const host: PluginHost = { bus, cleanups: new Map() };
+  hosts.add(host);
+  plugins.forEach((plugin) => setupPlugin(host, plugin));
+  return () => {
+    hosts.delete(host);
+    Array.from(host.cleanups.keys()).forEach((id) => teardownPlugin(host, id));
+  };
+};
@@ -0,0 +1,45 @@
+import { useCallback, useEffect, useRef, useState } from "react";
+
+type NextWindow = Window & { __NEXT_DATA__?: { buildId?: string } };
+
+export const useServiceWorker = () => {
+  const [waiting, setWaiting] = useState<ServiceWorker | null>(null);
+  const updateRequestedRef = useRef(false);
+
+  useEffect(() => {
+    if (process.env.NODE_ENV !== "production" || !("serviceWorker" in navigator)) return;
+    const buildId = (window as NextWindow).__NEXT_DATA__?.buildId ?? "dev";
+
+    const handleControllerChange = () => {
+      if (updateRequestedRef.current) window.location.reload();
+    };
+
+    navigator.serviceWorker.addEventListener("controllerchange", handleControllerChange);
+    navigator.serviceWorker
+      .register(`/sw.js?build=${encodeURIComponent(buildId)}`)
+      .then((registration) => {
+        if (registration.waiting && navigator.serviceWorker.controller) {
+          setWaiting(registration.waiting);
+        }
+        registration.addEventListener("updatefound", () => {
+          const installing = registration.installing;
+          installing?.addEventListener("statechange", () => {
+            if (installing.state === "installed" && navigator.serviceWorker.controller) {
+              setWaiting(installing);
+            }
+          });
+        });
+      })
+      .catch(() => {});
+    return () =>
+      navigator.serviceWorker.removeEventListener("controllerchange", handleControllerChange);
+  }, []);
+
+  const applyUpdate = useCallback(() => {
+    if (!waiting) return;
+    updateRequestedRef.current = true;
+    waiting.postMessage({ type: "SKIP_WAITING" });
+  }, [waiting]);
+
+  return { updateReady: waiting !== null, applyUpdate, dismissUpdate: () => setWaiting(null) };
+};
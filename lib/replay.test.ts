@@ -0,0 +1,91 @@
+import { describe, expect, it } from "vitest";
+import { applyMove, createGame } from "./engine";
+import {
+  type Replay,
+  createReplay,
+  decodeReplayFragment,
+  encodeReplayFragment,
+  parseReplay,
+  recordMove,
+  replayStates,
+  serializeReplay,
+} from "./replay";
+import { createRng } from "./rng";
+
+const recordedGame = (): Replay => {
+  const rng = createRng("replay-seed");
+  let state = createGame(4, rng);
+  let replay = createReplay("replay-seed", 4, state.tiles, 0, "timeAttack");
+  for (const direction of ["left", "up", "right", "down", "left", "up"] as const) {
+    const { state: next, plan, events } = applyMove(state, direction, rng);
+    if (!plan) continue;
+    const spawn = events.find((event) => event.type === "spawn");
+    replay = recordMove(replay, direction, spawn?.type === "spawn" ? spawn.tile : null);
+    state = next;
+  }
+  return replay;
+};
+
+const fragmentWith = (value: unknown): string =>
+  `#replay=${btoa(JSON.stringify(value)).replace(/\+/g, "-").replace(/\//g, "_")}`;
+
+describe("replay encoding", () => {
+  const replay = recordedGame();
+
+  it("records moves that play back to the live game", () => {
+    expect(replay.moves.length).toBeGreaterThan(0);
+    expect(replayStates(replay)).toHaveLength(replay.moves.length + 1);
+  });
+
+  it("round-trips through JSON", () => {
+    expect(parseReplay(JSON.parse(serializeReplay(replay)))).toEqual(replay);
+  });
+
+  it("round-trips through a URL fragment", () => {
+    const fragment = encodeReplayFragment(replay);
+    expect(fragment).toMatch(/^replay=[\w-]+$/);
+    expect(decodeReplayFragment(`#${fragment}`)).toEqual(replay);
+  });
+
+  it("ignores fragments without a replay", () => {
+    expect(decodeReplayFragment("")).toBeNull();
+    expect(decodeReplayFragment("#other=1")).toBeNull();
+  });
+
+  it.each([1, 5, 12])("rejects a fragment truncated by %i characters", (cut) => {
+    expect(decodeReplayFragment(encodeReplayFragment(replay).slice(0, -cut))).toBeNull();
+  });
+
+  it("rejects a fragment that isn't base64", () => {
+    expect(decodeReplayFragment("#replay=%%%")).toBeNull();
+  });
+
+  it("accepts a fragment holding a valid replay", () => {
+    expect(decodeReplayFragment(fragmentWith(replay))).toEqual(replay);
+  });
+
+  it.each<[string, (replay: Replay) => unknown]>([
+    ["an unknown version", (data) => ({ ...data, version: 2 })],
+    ["a size below the range", (data) => ({ ...data, size: 2 })],
+    ["a size above the range", (data) => ({ ...data, size: 9 })],
+    ["a fractional size", (data) => ({ ...data, size: 4.5 })],
+    ["a bad tile value", (data) => ({ ...data, tiles: [{ row: 0, col: 0, value: 3 }] })],
+    ["a tile off the board", (data) => ({ ...data, tiles: [{ row: 4, col: 0, value: 2 }] })],
+    [
+      "a fractional tile position",
+      (data) => ({ ...data, tiles: [{ row: 0.5, col: 0, value: 2 }] }),
+    ],
+    ["an unknown direction", (data) => ({ ...data, moves: [{ direction: "north", spawn: null }] })],
+    [
+      "a bad spawn value",
+      (data) => ({
+        ...data,
+        moves: [{ direction: "left", spawn: { row: 0, col: 0, value: -4 } }],
+      }),
+    ],
+    ["a missing move list", (data) => ({ ...data, moves: undefined })],
+  ])("rejects a replay with %s", (_, tamper) => {
+    expect(parseReplay(tamper(replay))).toBeNull();
+    expect(decodeReplayFragment(fragmentWith(tamper(replay)))).toBeNull();
+  });
+});
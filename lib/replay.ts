@@ -0,0 +1,151 @@
+import { isBoardSize, isTileValue } from "./board";
+import {
+  type Direction,
+  type GameState,
+  type Spawn,
+  type Tile,
+  applyRecordedMove,
+  isTileKind,
+} from "./engine";
+import { type GameMode, MODE_RULES, isGameMode } from "./modes";
+
+export type ReplayMove = {
+  direction: Direction;
+  spawn: Spawn | null;
+};
+
+export type Replay = {
+  version: typeof REPLAY_VERSION;
+  seed: string;
+  mode: GameMode;
+  size: number;
+  score: number;
+  tiles: Spawn[];
+  moves: ReplayMove[];
+};
+
+export const REPLAY_VERSION = 1;
+
+const FRAGMENT_KEY = "replay";
+
+const DIRECTION_SET = new Set<string>(["left", "right", "up", "down"]);
+
+const isSpawn = (value: unknown, size: number): value is Spawn => {
+  if (!value || typeof value !== "object") return false;
+  const spawn = value as Record<string, unknown>;
+  return (
+    typeof spawn.value === "number" &&
+    Number.isInteger(spawn.row) &&
+    Number.isInteger(spawn.col) &&
+    (spawn.kind === undefined || isTileKind(spawn.kind)) &&
+    (spawn.kind === "blocker" || spawn.kind === "wildcard" || isTileValue(spawn.value)) &&
+    (spawn.row as number) >= 0 &&
+    (spawn.row as number) < size &&
+    (spawn.col as number) >= 0 &&
+    (spawn.col as number) < size
+  );
+};
+
+const isReplayMove = (value: unknown, size: number): value is ReplayMove => {
+  if (!value || typeof value !== "object") return false;
+  const move = value as Record<string, unknown>;
+  return (
+    typeof move.direction === "string" &&
+    DIRECTION_SET.has(move.direction) &&
+    (move.spawn === null || isSpawn(move.spawn, size))
+  );
+};
+
+const toSpawn = ({ row, col, value, kind }: Spawn): Spawn =>
+  kind ? { row, col, value, kind } : { row, col, value };
+
+export const createReplay = (
+  seed: string,
+  size: number,
+  tiles: Tile[],
+  score = 0,
+  mode: GameMode = "classic"
+): Replay => ({
+  version: REPLAY_VERSION,
+  seed,
+  mode,
+  size,
+  score,
+  tiles: tiles.map(toSpawn),
+  moves: [],
+});
+
+export const recordMove = (replay: Replay, direction: Direction, spawn: Spawn | null): Replay => ({
+  ...replay,
+  moves: [...replay.moves, { direction, spawn: spawn ? toSpawn(spawn) : null }],
+});
+
+export const dropLastMove = (replay: Replay): Replay => ({
+  ...replay,
+  moves: replay.moves.slice(0, -1),
+});
+
+export const parseReplay = (raw: unknown): Replay | null => {
+  if (!raw || typeof raw !== "object") return null;
+  const data = raw as Record<string, unknown>;
+  if (data.version !== REPLAY_VERSION) return null;
+  const size = data.size;
+  if (typeof size !== "number" || !isBoardSize(size)) return null;
+  if (typeof data.seed !== "string" || typeof data.score !== "number") return null;
+  if (!Array.isArray(data.tiles) || !data.tiles.every((tile) => isSpawn(tile, size))) return null;
+  if (!Array.isArray(data.moves) || !data.moves.every((move) => isReplayMove(move, size))) {
+    return null;
+  }
+  return {
+    version: REPLAY_VERSION,
+    seed: data.seed,
+    mode: isGameMode(data.mode) ? data.mode : "classic",
+    size,
+    score: data.score,
+    tiles: data.tiles.map(toSpawn),
+    moves: data.moves.map((move) => ({
+      direction: move.direction,
+      spawn: move.spawn ? toSpawn(move.spawn) : null,
+    })),
+  };
+};
+
+export const replayStates = (replay: Replay): GameState[] => {
+  const initial: GameState = {
+    tiles: replay.tiles.map((tile, index) => ({ ...tile, id: index + 1 })),
+    score: replay.score,
+    size: replay.size,
+    nextId: replay.tiles.length + 1,
+  };
+  const states = [initial];
+  const { afterMove } = MODE_RULES[replay.mode];
+  for (const move of replay.moves) {
+    const current = states[states.length - 1];
+    const { state, plan } = applyRecordedMove(current, move.direction, move.spawn, afterMove);
+    if (!plan) break;
+    states.push(state);
+  }
+  return states;
+};
+
+export const serializeReplay = (replay: Replay): string => JSON.stringify(replay);
+
+export const encodeReplayFragment = (replay: Replay): string => {
+  const bytes = new TextEncoder().encode(serializeReplay(replay));
+  const binary = Array.from(bytes, (byte) => String.fromCharCode(byte)).join("");
+  const encoded = btoa(binary).replace(/\+/g, "-").replace(/\//g, "_").replace(/=+$/, "");
+  return `${FRAGMENT_KEY}=${encoded}`;
+};
+
+export const decodeReplayFragment = (hash: string): Replay | null => {
+  const params = new URLSearchParams(hash.replace(/^#/, ""));
+  const encoded = params.get(FRAGMENT_KEY);
+  if (!encoded) return null;
+  try {
+    const binary = atob(encoded.replace(/-/g, "+").replace(/_/g, "/"));
+    const bytes = Uint8Array.from(binary, (char) => char.charCodeAt(0));
+    return parseReplay(JSON.parse(new TextDecoder().decode(bytes)));
+  } catch {
+    return null;
+  }
+};
@@ -0,0 +1,26 @@
+export type Rng = {
+  state: number;
+};
+
+export const hashSeed = (seed: string): number => {
+  let hash = 1779033703 ^ seed.length;
+  for (let i = 0; i < seed.length; i += 1) {
+    hash = Math.imul(hash ^ seed.charCodeAt(i), 3432918353);
+    hash = (hash << 13) | (hash >>> 19);
+  }
+  return hash >>> 0;
+};
+
+export const createRng = (seed: string): Rng => ({ state: hashSeed(seed) });
+
+export const nextRandom = (rng: Rng): number => {
+  rng.state = (rng.state + 0x6d2b79f5) >>> 0;
+  let t = rng.state;
+  t = Math.imul(t ^ (t >>> 15), t | 1);
+  t ^= t + Math.imul(t ^ (t >>> 7), t | 61);
+  return ((t ^ (t >>> 14)) >>> 0) / 4294967296;
+};
+
+export const createSeed = (): string => Math.random().toString(36).slice(2, 8);
+
+export const dailySeed = (): string => `daily-${new Date().toISOString().slice(0, 10)}`;
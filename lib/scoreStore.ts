@@ -0,0 +1,92 @@
+import { createHash } from "crypto";
+import { mkdir, readFile, rename, writeFile } from "fs/promises";
+import type { NextApiResponse } from "next";
+import path from "path";
+import {
+  type LeaderboardEntry,
+  type RankedEntry,
+  type ScoreSubmission,
+  rankEntries,
+} from "./leaderboard";
+import { GAME_MODES, type GameMode, isGameMode } from "./modes";
+
+const STORE_FILE =
+  process.env.LEADERBOARD_FILE ?? path.join(process.cwd(), ".data", "leaderboard.json");
+
+export const STORE_DIR = path.dirname(STORE_FILE);
+
+let writeQueue: Promise<unknown> = Promise.resolve();
+
+const isEntry = (value: unknown): value is LeaderboardEntry => {
+  if (!value || typeof value !== "object") return false;
+  const entry = value as Record<string, unknown>;
+  return (
+    typeof entry.id === "string" &&
+    typeof entry.name === "string" &&
+    typeof entry.seed === "string" &&
+    typeof entry.size === "number" &&
+    isGameMode(entry.mode) &&
+    typeof entry.score === "number" &&
+    typeof entry.maxTile === "number" &&
+    typeof entry.moves === "number" &&
+    typeof entry.submittedAt === "number"
+  );
+};
+
+export const isMissingFile = (error: unknown): boolean =>
+  error instanceof Error && (error as NodeJS.ErrnoException).code === "ENOENT";
+
+const readEntries = async (): Promise<LeaderboardEntry[]> => {
+  let text: string;
+  try {
+    text = await readFile(STORE_FILE, "utf8");
+  } catch (error) {
+    if (isMissingFile(error)) return [];
+    throw error;
+  }
+  const raw: unknown = JSON.parse(text);
+  if (!Array.isArray(raw)) throw new Error(`${STORE_FILE} does not hold a score list`);
+  return raw.filter(isEntry);
+};
+
+const writeEntries = async (entries: LeaderboardEntry[]) => {
+  await mkdir(STORE_DIR, { recursive: true });
+  const temp = `${STORE_FILE}.${process.pid}.tmp`;
+  await writeFile(temp, JSON.stringify(entries));
+  await rename(temp, STORE_FILE);
+};
+
+export const submissionId = ({ seed, size, mode, specialTiles, moves }: ScoreSubmission): string =>
+  createHash("sha256")
+    .update(JSON.stringify([seed, size, mode, specialTiles, moves]))
+    .digest("hex");
+
+export const addEntry = (entry: LeaderboardEntry): Promise<RankedEntry | null> => {
+  const task = writeQueue.then(async () => {
+    const stored = await readEntries();
+    if (stored.some((item) => item.id === entry.id)) return null;
+    const entries = [...stored, entry];
+    await writeEntries(entries);
+    const ranked = rankEntries(entries, entry.mode).find((item) => item.id === entry.id);
+    return ranked ?? { ...entry, rank: entries.length };
+  });
+  writeQueue = task.catch(() => {});
+  return task;
+};
+
+export const topEntries = async (mode: GameMode, limit: number): Promise<RankedEntry[]> =>
+  rankEntries(await readEntries(), mode).slice(0, limit);
+
+export const playerEntries = async (name: string): Promise<RankedEntry[]> => {
+  const entries = await readEntries();
+  const key = name.toLowerCase();
+  return GAME_MODES.flatMap((mode) => {
+    const best = rankEntries(entries, mode).find((entry) => entry.name.toLowerCase() === key);
+    return best ? [best] : [];
+  });
+};
+
+export const storeError = (res: NextApiResponse<{ error: string }>, error: unknown) => {
+  console.error("Leaderboard store failed", error);
+  res.status(500).json({ error: "The leaderboard store is unavailable." });
+};
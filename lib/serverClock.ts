@@ -0,0 +1,94 @@
+import { createHmac, randomBytes, timingSafeEqual } from "crypto";
+import { mkdir, readFile, writeFile } from "fs/promises";
+import path from "path";
+import type { Direction } from "./engine";
+import type { ClockSpan } from "./leaderboard";
+import { STORE_DIR, isMissingFile } from "./scoreStore";
+
+const SECRET_FILE = path.join(STORE_DIR, "clock-secret");
+
+let secret: Promise<string> | null = null;
+
+const isExistingFile = (error: unknown): boolean =>
+  error instanceof Error && (error as NodeJS.ErrnoException).code === "EEXIST";
+
+const readSecret = async (): Promise<string> => {
+  const envSecret = process.env.LEADERBOARD_SECRET;
+  if (envSecret) return envSecret;
+  if (process.env.NODE_ENV === "production") {
+    throw new Error("LEADERBOARD_SECRET must be set in production.");
+  }
+  try {
+    return await readFile(SECRET_FILE, "utf8");
+  } catch (error) {
+    if (!isMissingFile(error)) throw error;
+  }
+  const created = randomBytes(32).toString("hex");
+  await mkdir(STORE_DIR, { recursive: true });
+  try {
+    await writeFile(SECRET_FILE, created, { flag: "wx" });
+    return created;
+  } catch (error) {
+    if (isExistingFile(error)) return readFile(SECRET_FILE, "utf8");
+    throw error;
+  }
+};
+
+const clockSecret = (): Promise<string> => {
+  secret ??= readSecret().catch((error) => {
+    secret = null;
+    throw error;
+  });
+  return secret;
+};
+
+const sign = async (payload: string): Promise<string> =>
+  createHmac("sha256", await clockSecret()).update(payload).digest("hex");
+
+const startPayload = (seed: string, startedAt: number): string => `start:${seed}:${startedAt}`;
+
+const stopPayload = (seed: string, span: ClockSpan, moves: Direction[]): string =>
+  `stop:${seed}:${span.startedAt}:${span.endedAt}:${moves.join(",")}`;
+
+const hasSignature = async (signature: string, payload: string): Promise<boolean> => {
+  const expected = Buffer.from(await sign(payload));
+  const actual = Buffer.from(signature);
+  return actual.length === expected.length && timingSafeEqual(actual, expected);
+};
+
+const parseTime = (value: string | undefined): number | null => {
+  const time = Number(value);
+  return value && Number.isSafeInteger(time) ? time : null;
+};
+
+export const dealClock = async (now = Date.now()): Promise<{ seed: string; token: string }> => {
+  const seed = randomBytes(6).toString("hex");
+  return { seed, token: `${now}.${await sign(startPayload(seed, now))}` };
+};
+
+export const stopClock = async (
+  token: string,
+  seed: string,
+  moves: Direction[],
+  now = Date.now()
+): Promise<string | null> => {
+  const [time, signature = "", ...rest] = token.split(".");
+  const startedAt = parseTime(time);
+  if (startedAt === null || rest.length > 0) return null;
+  if (!(await hasSignature(signature, startPayload(seed, startedAt)))) return null;
+  const span = { startedAt, endedAt: Math.max(now, startedAt) };
+  return `${span.startedAt}.${span.endedAt}.${await sign(stopPayload(seed, span, moves))}`;
+};
+
+export const clockSpan = async (
+  token: string,
+  seed: string,
+  moves: Direction[]
+): Promise<ClockSpan | null> => {
+  const [start, end, signature = "", ...rest] = token.split(".");
+  const startedAt = parseTime(start);
+  const endedAt = parseTime(end);
+  if (startedAt === null || endedAt === null || rest.length > 0) return null;
+  const span = { startedAt, endedAt };
+  return (await hasSignature(signature, stopPayload(seed, span, moves))) ? span : null;
+};
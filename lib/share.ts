@@ -0,0 +1,186 @@
+import type { Tile } from "./engine";
+import { type Theme, resolveTileVisual, tileLabel } from "./themes";
+
+export type GameResult = {
+  tiles: Tile[];
+  size: number;
+  score: number;
+  maxTile: number;
+  moves: number;
+  date: Date;
+};
+
+const CARD_WIDTH = 600;
+const CARD_PADDING = 40;
+const HEADER_HEIGHT = 140;
+const FOOTER_HEIGHT = 60;
+const BOARD_GAP = 10;
+const BACKGROUND = "#f7f7f4";
+const BOARD_COLOR = "#dcd6c9";
+const CELL_COLOR = "#eee6db";
+const TEXT_COLOR = "#222";
+const MUTED_COLOR = "#6b6257";
+const FONT = '"Helvetica Neue", Arial, sans-serif';
+
+const EMPTY_EMOJI = "⬜";
+const EMOJI_LEVELS = ["🟨", "🟧", "🟥", "🟪", "🟦", "🟩"];
+
+const formatDate = (date: Date): string => date.toISOString().slice(0, 10);
+
+export const tileEmoji = (tile: Tile | undefined): string =>
+  !tile
+    ? EMPTY_EMOJI
+    : tile.kind === "blocker"
+    ? "⬛"
+    : tile.kind === "wildcard"
+    ? "⭐"
+    : tile.kind === "bomb"
+    ? "💣"
+    : EMOJI_LEVELS[Math.min(Math.floor((Math.log2(tile.value) - 1) / 2), EMOJI_LEVELS.length - 1)];
+
+export const emojiGrid = (tiles: Tile[], size: number): string =>
+  Array.from({ length: size }, (_, row) =>
+    Array.from({ length: size }, (_, col) =>
+      tileEmoji(tiles.find((tile) => tile.row === row && tile.col === col))
+    ).join("")
+  ).join("\n");
+
+export const resultText = (result: GameResult): string =>
+  [
+    `2048 · ${formatDate(result.date)}`,
+    `Score ${result.score} · Max tile ${result.maxTile} · ${result.moves} moves`,
+    emojiGrid(result.tiles, result.size),
+  ].join("\n");
+
+const loadImage = (src: string): Promise<HTMLImageElement | null> =>
+  new Promise((resolve) => {
+    const image = new Image();
+    image.onload = () => resolve(image);
+    image.onerror = () => resolve(null);
+    image.src = src;
+  });
+
+const roundedRect = (
+  context: CanvasRenderingContext2D,
+  x: number,
+  y: number,
+  size: number,
+  radius: number
+) => {
+  context.beginPath();
+  context.moveTo(x + radius, y);
+  context.arcTo(x + size, y, x + size, y + size, radius);
+  context.arcTo(x + size, y + size, x, y + size, radius);
+  context.arcTo(x, y + size, x, y, radius);
+  context.arcTo(x, y, x + size, y, radius);
+  context.closePath();
+};
+
+const drawCover = (
+  context: CanvasRenderingContext2D,
+  image: HTMLImageElement,
+  x: number,
+  y: number,
+  size: number
+) => {
+  const side = Math.min(image.naturalWidth, image.naturalHeight);
+  const sx = (image.naturalWidth - side) / 2;
+  const sy = (image.naturalHeight - side) / 2;
+  context.drawImage(image, sx, sy, side, side, x, y, size, size);
+};
+
+export const renderResultCard = async (result: GameResult, theme: Theme): Promise<Blob> => {
+  const boardSize = CARD_WIDTH - CARD_PADDING * 2;
+  const cell = (boardSize - BOARD_GAP * (result.size + 1)) / result.size;
+  const canvas = document.createElement("canvas");
+  canvas.width = CARD_WIDTH;
+  canvas.height = HEADER_HEIGHT + boardSize + FOOTER_HEIGHT + CARD_PADDING;
+  const context = canvas.getContext("2d");
+  if (!context) throw new Error("Canvas is not supported");
+
+  const visuals = result.tiles.map((tile) => resolveTileVisual(theme, tile));
+  const sources = Array.from(new Set(visuals.flatMap((visual) => visual.image ?? [])));
+  const images = new Map(
+    await Promise.all(sources.map(async (src) => [src, await loadImage(src)] as const))
+  );
+
+  context.fillStyle = BACKGROUND;
+  context.fillRect(0, 0, canvas.width, canvas.height);
+  context.fillStyle = TEXT_COLOR;
+  context.font = `700 48px ${FONT}`;
+  context.textBaseline = "alphabetic";
+  context.fillText("2048", CARD_PADDING, CARD_PADDING + 44);
+  context.font = `600 22px ${FONT}`;
+  context.fillText(
+    `Score ${result.score} · Max ${result.maxTile} · ${result.moves} moves`,
+    CARD_PADDING,
+    CARD_PADDING + 84
+  );
+
+  const boardY = HEADER_HEIGHT;
+  context.fillStyle = BOARD_COLOR;
+  roundedRect(context, CARD_PADDING, boardY, boardSize, 16);
+  context.fill();
+
+  const cellOrigin = (index: number) => BOARD_GAP + index * (cell + BOARD_GAP);
+  for (let row = 0; row < result.size; row += 1) {
+    for (let col = 0; col < result.size; col += 1) {
+      context.fillStyle = CELL_COLOR;
+      roundedRect(context, CARD_PADDING + cellOrigin(col), boardY + cellOrigin(row), cell, 8);
+      context.fill();
+    }
+  }
+
+  result.tiles.forEach((tile, index) => {
+    const visual = visuals[index];
+    const x = CARD_PADDING + cellOrigin(tile.col);
+    const y = boardY + cellOrigin(tile.row);
+    const image = visual.image ? images.get(visual.image) : null;
+    context.save();
+    roundedRect(context, x, y, cell, 8);
+    context.clip();
+    context.fillStyle = visual.color ?? CELL_COLOR;
+    context.fillRect(x, y, cell, cell);
+    if (image) drawCover(context, image, x, y, cell);
+    context.restore();
+    if (image && !visual.showValue) return;
+    const label = tileLabel(tile);
+    context.fillStyle = visual.textColor;
+    context.font = `700 ${Math.round((cell * 0.8) / Math.max(label.length, 2))}px ${
+      visual.font ?? FONT
+    }`;
+    context.textAlign = "center";
+    context.textBaseline = "middle";
+    context.fillText(label, x + cell / 2, y + cell / 2);
+    context.textAlign = "start";
+    context.textBaseline = "alphabetic";
+  });
+
+  context.fillStyle = MUTED_COLOR;
+  context.font = `500 18px ${FONT}`;
+  context.fillText(formatDate(result.date), CARD_PADDING, boardY + boardSize + 40);
+
+  return new Promise((resolve, reject) =>
+    canvas.toBlob(
+      (blob) => (blob ? resolve(blob) : reject(new Error("Could not render card"))),
+      "image/png"
+    )
+  );
+};
+
+export const copyImage = async (blob: Blob) => {
+  await navigator.clipboard.write([new ClipboardItem({ [blob.type]: blob })]);
+};
+
+export const shareResult = async (blob: Blob, text: string): Promise<boolean> => {
+  const file = new File([blob], "2048-result.png", { type: blob.type });
+  if (navigator.canShare?.({ files: [file] })) {
+    await navigator.share({ files: [file], text });
+    return true;
+  }
+  if (typeof navigator.share === "function") {
+    await navigator.share({ text });
+    return true;
+  }
+  return false;
+};
@@ -0,0 +1,132 @@
+import {
+  type Direction,
+  type Grid,
+  type Tile,
+  getEmptyCells,
+  gridFromTiles,
+  planMove,
+} from "./engine";
+
+export type SolverRequest = {
+  id: number;
+  tiles: Tile[];
+  size: number;
+};
+
+export type SolverResponse = {
+  id: number;
+  direction: Direction | null;
+};
+
+const SEARCH_DIRECTIONS: Direction[] = ["up", "left", "right", "down"];
+const EMPTY_WEIGHT = 2.7;
+const MONOTONICITY_WEIGHT = 1;
+const SMOOTHNESS_WEIGHT = 0.1;
+const CORNER_WEIGHT = 1;
+const DEAD_SCORE = -1e6;
+const MAX_CHANCE_CELLS = 4;
+
+const noId = () => 0;
+
+const log2 = (value: number) => (value > 0 ? Math.log2(value) : 0);
+
+const monotonicity = (grid: Grid): number => {
+  const size = grid.length;
+  let total = 0;
+  for (let line = 0; line < size; line += 1) {
+    let rowUp = 0;
+    let rowDown = 0;
+    let colUp = 0;
+    let colDown = 0;
+    for (let i = 0; i < size - 1; i += 1) {
+      const rowDiff = log2(grid[line][i + 1]) - log2(grid[line][i]);
+      const colDiff = log2(grid[i + 1][line]) - log2(grid[i][line]);
+      if (rowDiff > 0) rowUp += rowDiff;
+      else rowDown -= rowDiff;
+      if (colDiff > 0) colUp += colDiff;
+      else colDown -= colDiff;
+    }
+    total -= Math.min(rowUp, rowDown) + Math.min(colUp, colDown);
+  }
+  return total;
+};
+
+const smoothness = (grid: Grid): number => {
+  const size = grid.length;
+  let total = 0;
+  for (let r = 0; r < size; r += 1) {
+    for (let c = 0; c < size; c += 1) {
+      if (!grid[r][c]) continue;
+      const value = log2(grid[r][c]);
+      if (c < size - 1 && grid[r][c + 1]) total -= Math.abs(value - log2(grid[r][c + 1]));
+      if (r < size - 1 && grid[r + 1][c]) total -= Math.abs(value - log2(grid[r + 1][c]));
+    }
+  }
+  return total;
+};
+
+const cornerBonus = (grid: Grid): number => {
+  const last = grid.length - 1;
+  const max = Math.max(...grid.flat());
+  const corners = [grid[0][0], grid[0][last], grid[last][0], grid[last][last]];
+  return corners.includes(max) ? log2(max) : 0;
+};
+
+export const evaluateGrid = (grid: Grid): number =>
+  getEmptyCells(grid).length * EMPTY_WEIGHT +
+  monotonicity(grid) * MONOTONICITY_WEIGHT +
+  smoothness(grid) * SMOOTHNESS_WEIGHT +
+  cornerBonus(grid) * CORNER_WEIGHT;
+
+const chanceNode = (tiles: Tile[], size: number, depth: number): number => {
+  const grid = gridFromTiles(tiles, size);
+  if (depth === 0) return evaluateGrid(grid);
+  const empty = getEmptyCells(grid);
+  if (empty.length === 0) return maxNode(tiles, size, depth);
+
+  const step = Math.max(1, Math.floor(empty.length / MAX_CHANCE_CELLS));
+  const sampled = empty.filter((_, index) => index % step === 0);
+  let total = 0;
+  for (const cell of sampled) {
+    for (const [value, weight] of [
+      [2, 0.9],
+      [4, 0.1],
+    ]) {
+      const next = [...tiles, { id: 0, value, row: cell.r, col: cell.c }];
+      total += weight * maxNode(next, size, depth - 1);
+    }
+  }
+  return total / sampled.length;
+};
+
+const maxNode = (tiles: Tile[], size: number, depth: number): number => {
+  let best = DEAD_SCORE;
+  for (const direction of SEARCH_DIRECTIONS) {
+    const { plan } = planMove(tiles, direction, size, noId);
+    if (!plan) continue;
+    best = Math.max(best, plan.score * 0.01 + chanceNode(plan.finalTiles, size, depth));
+  }
+  return best;
+};
+
+const searchDepth = (tiles: Tile[], size: number): number => {
+  const empty = size * size - tiles.length;
+  if (size > 5) return 1;
+  return empty > 4 ? 1 : 2;
+};
+
+export const findBestMove = (tiles: Tile[], size: number): Direction | null => {
+  const depth = searchDepth(tiles, size);
+  let best: Direction | null = null;
+  let bestScore = -Infinity;
+  for (const direction of SEARCH_DIRECTIONS) {
+    const { plan } = planMove(tiles, direction, size, noId);
+    if (!plan) continue;
+    const score = plan.score * 0.01 + chanceNode(plan.finalTiles, size, depth);
+    if (score > bestScore) {
+      bestScore = score;
+      best = direction;
+    }
+  }
+  return best;
+};
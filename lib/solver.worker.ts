@@ -0,0 +1,7 @@
+import { type SolverRequest, type SolverResponse, findBestMove } from "./solver";
+
+self.onmessage = (event: MessageEvent<SolverRequest>) => {
+  const { id, tiles, size } = event.data;
+  const response: SolverResponse = { id, direction: findBestMove(tiles, size) };
+  self.postMessage(response);
+};
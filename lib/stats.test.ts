@@ -0,0 +1,46 @@
+import { describe, expect, it } from "vitest";
+import { type GameRecord, rankGames, summarizeGames } from "./stats";
+
+const game = (id: string, score: number, maxTile: number, extra: Partial<GameRecord> = {}) => ({
+  id,
+  seed: id,
+  size: 4,
+  score,
+  maxTile,
+  moves: 100,
+  startedAt: 0,
+  endedAt: 1000,
+  cheated: false,
+  ...extra,
+});
+
+describe("summarizeGames", () => {
+  const games: GameRecord[] = [
+    game("win", 30000, 2048),
+    game("loss", 10000, 512),
+    game("cheated", 90000, 4096, { cheated: true }),
+    game("assisted", 50000, 2048, { assisted: true }),
+  ];
+
+  it("leaves cheated and assisted games out of the win rate and average score", () => {
+    expect(summarizeGames(games)).toMatchObject({
+      played: 4,
+      wins: 1,
+      winRate: 0.5,
+      averageScore: 20000,
+    });
+  });
+
+  it("still counts every game in the max tile histogram", () => {
+    expect(summarizeGames(games).histogram).toEqual([
+      { value: 512, count: 1 },
+      { value: 2048, count: 2 },
+      { value: 4096, count: 1 },
+    ]);
+  });
+
+  it("ranks only fair classic games", () => {
+    const timed = game("timed", 40000, 1024, { mode: "timeAttack" });
+    expect(rankGames([...games, timed]).map((record) => record.id)).toEqual(["win", "loss"]);
+  });
+});
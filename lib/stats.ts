@@ -0,0 +1,129 @@
+import { type GameMode, isGameMode } from "./modes";
+
+export type GameRecord = {
+  id: string;
+  seed: string;
+  size: number;
+  score: number;
+  maxTile: number;
+  moves: number;
+  startedAt: number;
+  endedAt: number;
+  cheated: boolean;
+  assisted?: boolean;
+  mode?: GameMode;
+};
+
+export type GameSummary = {
+  played: number;
+  wins: number;
+  winRate: number;
+  averageScore: number;
+  histogram: Array<{ value: number; count: number }>;
+};
+
+export const WIN_TILE = 2048;
+
+const DB_NAME = "2048-stats";
+const DB_VERSION = 1;
+const STORE = "games";
+
+const openDb = (): Promise<IDBDatabase> =>
+  new Promise((resolve, reject) => {
+    const request = indexedDB.open(DB_NAME, DB_VERSION);
+    request.onupgradeneeded = () => {
+      const db = request.result;
+      if (!db.objectStoreNames.contains(STORE)) {
+        db.createObjectStore(STORE, { keyPath: "id" });
+      }
+    };
+    request.onsuccess = () => resolve(request.result);
+    request.onerror = () => reject(request.error);
+  });
+
+const withStore = async <T>(
+  mode: IDBTransactionMode,
+  run: (store: IDBObjectStore) => IDBRequest<T> | void
+): Promise<T | undefined> => {
+  const db = await openDb();
+  try {
+    return await new Promise<T | undefined>((resolve, reject) => {
+      const transaction = db.transaction(STORE, mode);
+      const request = run(transaction.objectStore(STORE));
+      transaction.oncomplete = () => resolve(request ? request.result : undefined);
+      transaction.onerror = () => reject(transaction.error);
+      transaction.onabort = () => reject(transaction.error);
+    });
+  } finally {
+    db.close();
+  }
+};
+
+const isGameRecord = (value: unknown): value is GameRecord => {
+  if (!value || typeof value !== "object") return false;
+  const record = value as Record<string, unknown>;
+  return (
+    typeof record.id === "string" &&
+    typeof record.seed === "string" &&
+    typeof record.size === "number" &&
+    typeof record.score === "number" &&
+    typeof record.maxTile === "number" &&
+    typeof record.moves === "number" &&
+    typeof record.startedAt === "number" &&
+    typeof record.endedAt === "number" &&
+    typeof record.cheated === "boolean" &&
+    (record.assisted === undefined || typeof record.assisted === "boolean") &&
+    (record.mode === undefined || isGameMode(record.mode))
+  );
+};
+
+export const parseGameRecords = (raw: unknown): GameRecord[] =>
+  Array.isArray(raw) ? raw.filter(isGameRecord) : [];
+
+export const saveGameRecord = async (record: GameRecord): Promise<void> => {
+  await withStore("readwrite", (store) => store.put(record));
+};
+
+export const importGameRecords = async (records: GameRecord[]): Promise<void> => {
+  await withStore("readwrite", (store) => {
+    records.forEach((record) => store.put(record));
+  });
+};
+
+export const clearGameRecords = async (): Promise<void> => {
+  await withStore("readwrite", (store) => store.clear());
+};
+
+export const listGameRecords = async (): Promise<GameRecord[]> => {
+  const records = await withStore<GameRecord[]>("readonly", (store) => store.getAll());
+  return parseGameRecords(records).sort((a, b) => b.endedAt - a.endedAt);
+};
+
+const isFairGame = (record: GameRecord): boolean => !record.cheated && !record.assisted;
+
+export const rankGames = (records: GameRecord[], limit = 10): GameRecord[] =>
+  records
+    .filter((record) => isFairGame(record) && (record.mode ?? "classic") === "classic")
+    .sort((a, b) => b.score - a.score || b.maxTile - a.maxTile)
+    .slice(0, limit);
+
+export const summarizeGames = (records: GameRecord[]): GameSummary => {
+  const played = records.length;
+  const fair = records.filter(isFairGame);
+  const wins = fair.filter((record) => record.maxTile >= WIN_TILE).length;
+  const counts = new Map<number, number>();
+  for (const record of records) {
+    counts.set(record.maxTile, (counts.get(record.maxTile) ?? 0) + 1);
+  }
+  return {
+    played,
+    wins,
+    winRate: fair.length ? wins / fair.length : 0,
+    averageScore: fair.length
+      ? fair.reduce((sum, record) => sum + record.score, 0) / fair.length
+      : 0,
+    histogram: Array.from(counts, ([value, count]) => ({ value, count })).sort(
+      (a, b) => a.value - b.value
+    ),
+  };
+};
@@ -0,0 +1,262 @@
+import type { CSSProperties } from "react";
+import type { Tile } from "./engine";
+
+export type TileStyle = {
+  image?: string;
+  color?: string;
+  textColor?: string;
+  sound?: string;
+};
+
+export type Theme = {
+  id: string;
+  name: string;
+  font?: string;
+  textColor: string;
+  mergeSound?: string;
+  tiles: Record<number, TileStyle>;
+  fallback?: TileStyle;
+};
+
+export type TileVisual = {
+  image: string | null;
+  color?: string;
+  textColor: string;
+  font?: string;
+  showValue: boolean;
+  sound?: string;
+};
+
+export const CUSTOM_THEME_ID = "custom";
+
+const THEME_KEY = "2048:theme";
+const CUSTOM_THEME_KEY = "2048:custom-theme";
+const THEME_DB_NAME = "2048-themes";
+const THEME_DB_VERSION = 1;
+const THEME_STORE = "themes";
+const FALLBACK_TEXT_COLOR = "#fff";
+
+export const MEME_THEME: Theme = {
+  id: "meme",
+  name: "Meme",
+  textColor: "#3c2f1e",
+  mergeSound: "/Voicy_Bruh.mp3",
+  tiles: {
+    2: { image: "/tiles/2.webp" },
+    4: { image: "/tiles/4.jpg" },
+    8: { image: "/tiles/8.jpg" },
+    16: { image: "/tiles/16.webp" },
+    32: { image: "/tiles/32.jpeg" },
+    64: { image: "/tiles/64.jpeg" },
+    128: { image: "/tiles/128.jpg" },
+    256: { image: "/tiles/256.jpg" },
+    512: { image: "/tiles/512.jpeg" },
+    1024: { image: "/tiles/1024.png" },
+    2048: { image: "/tiles/2048.jpg" },
+  },
+};
+
+export const CLASSIC_THEME: Theme = {
+  id: "classic",
+  name: "Classic",
+  font: '"Helvetica Neue", Arial, sans-serif',
+  textColor: "#f9f6f2",
+  tiles: {
+    2: { color: "#eee4da", textColor: "#776e65" },
+    4: { color: "#ede0c8", textColor: "#776e65" },
+    8: { color: "#f2b179" },
+    16: { color: "#f59563" },
+    32: { color: "#f67c5f" },
+    64: { color: "#f65e3b" },
+    128: { color: "#edcf72" },
+    256: { color: "#edcc61" },
+    512: { color: "#edc850" },
+    1024: { color: "#edc53f" },
+    2048: { color: "#edc22e" },
+  },
+  fallback: { color: "#3c3a32" },
+};
+
+export const BUILT_IN_THEMES = [MEME_THEME, CLASSIC_THEME];
+
+export const generatedTileColor = (value: number): string => {
+  const level = Math.log2(value);
+  return `hsl(${(level * 29) % 360}, 70%, ${Math.max(32, 72 - level * 2)}%)`;
+};
+
+export const resolveTile = (theme: Theme, value: number): TileVisual => {
+  const style = theme.tiles[value];
+  if (style) {
+    return {
+      image: style.image ?? null,
+      color: style.color ?? (style.image ? undefined : generatedTileColor(value)),
+      textColor: style.textColor ?? theme.textColor,
+      font: theme.font,
+      showValue: !style.image,
+      sound: style.sound ?? theme.mergeSound,
+    };
+  }
+  const fallback = theme.fallback ?? { textColor: FALLBACK_TEXT_COLOR };
+  return {
+    image: fallback.image ?? null,
+    color: fallback.color ?? generatedTileColor(value),
+    textColor: fallback.textColor ?? theme.textColor,
+    font: theme.font,
+    showValue: true,
+    sound: fallback.sound ?? theme.mergeSound,
+  };
+};
+
+const SPECIAL_VISUALS: Record<"blocker" | "wildcard", TileVisual> = {
+  blocker: { image: null, color: "#6b6257", textColor: "#d8d0c4", showValue: true },
+  wildcard: { image: null, color: "#8f5bd6", textColor: "#fff", showValue: true },
+};
+
+export const resolveTileVisual = (theme: Theme, tile: Tile): TileVisual =>
+  tile.kind === "blocker" || tile.kind === "wildcard"
+    ? SPECIAL_VISUALS[tile.kind]
+    : resolveTile(theme, tile.value);
+
+export const tileLabel = (tile: Tile): string =>
+  tile.kind === "blocker" ? "Stone" : tile.kind === "wildcard" ? "Wild" : String(tile.value);
+
+export const tileVisualStyle = (visual: TileVisual): CSSProperties => ({
+  backgroundImage: visual.image ? `url(${visual.image})` : "none",
+  backgroundColor: visual.color,
+  color: visual.textColor,
+  fontFamily: visual.font,
+});
+
+const resolveAsset = (value: unknown, assets: Record<string, string>): string | undefined => {
+  if (typeof value !== "string") return undefined;
+  return assets[value] ?? (/^(\/|https?:|data:|blob:)/.test(value) ? value : undefined);
+};
+
+const parseTileStyle = (
+  raw: unknown,
+  assets: Record<string, string>
+): TileStyle | undefined => {
+  if (!raw || typeof raw !== "object") return undefined;
+  const data = raw as Record<string, unknown>;
+  const text = (value: unknown) => (typeof value === "string" ? value : undefined);
+  return {
+    image: resolveAsset(data.image, assets),
+    color: text(data.color),
+    textColor: text(data.textColor),
+    sound: resolveAsset(data.sound, assets),
+  };
+};
+
+export const parseTheme = (raw: unknown, assets: Record<string, string> = {}): Theme | null => {
+  if (!raw || typeof raw !== "object") return null;
+  const data = raw as Record<string, unknown>;
+  if (!data.tiles || typeof data.tiles !== "object") return null;
+  const tiles: Record<number, TileStyle> = {};
+  for (const [key, value] of Object.entries(data.tiles as Record<string, unknown>)) {
+    const tileValue = Number(key);
+    const style = parseTileStyle(value, assets);
+    if (Number.isInteger(tileValue) && tileValue > 0 && style) tiles[tileValue] = style;
+  }
+  if (Object.keys(tiles).length === 0) return null;
+  return {
+    id: CUSTOM_THEME_ID,
+    name: typeof data.name === "string" && data.name ? data.name : "Custom",
+    font: typeof data.font === "string" ? data.font : undefined,
+    textColor: typeof data.textColor === "string" ? data.textColor : FALLBACK_TEXT_COLOR,
+    mergeSound: resolveAsset(data.mergeSound, assets),
+    tiles,
+    fallback: parseTileStyle(data.fallback, assets),
+  };
+};
+
+const readDataUrl = (file: File): Promise<string> =>
+  new Promise((resolve, reject) => {
+    const reader = new FileReader();
+    reader.onload = () => resolve(String(reader.result));
+    reader.onerror = () => reject(reader.error);
+    reader.readAsDataURL(file);
+  });
+
+export const loadThemeFiles = async (files: File[]): Promise<Theme | null> => {
+  const manifest = files.find((file) => file.name.endsWith(".json"));
+  if (!manifest) return null;
+  const assets: Record<string, string> = {};
+  for (const file of files) {
+    if (file === manifest) continue;
+    assets[file.name] = await readDataUrl(file);
+  }
+  try {
+    return parseTheme(JSON.parse(await manifest.text()), assets);
+  } catch {
+    return null;
+  }
+};
+
+export const loadThemeId = (): string | null => {
+  try {
+    return window.localStorage.getItem(THEME_KEY);
+  } catch {
+    return null;
+  }
+};
+
+export const saveThemeId = (id: string) => {
+  try {
+    window.localStorage.setItem(THEME_KEY, id);
+  } catch {}
+};
+
+const openThemeDb = (): Promise<IDBDatabase> =>
+  new Promise((resolve, reject) => {
+    const request = indexedDB.open(THEME_DB_NAME, THEME_DB_VERSION);
+    request.onupgradeneeded = () => {
+      const db = request.result;
+      if (!db.objectStoreNames.contains(THEME_STORE)) db.createObjectStore(THEME_STORE);
+    };
+    request.onsuccess = () => resolve(request.result);
+    request.onerror = () => reject(request.error);
+  });
+
+const withThemeStore = async <T>(
+  mode: IDBTransactionMode,
+  run: (store: IDBObjectStore) => IDBRequest<T>
+): Promise<T> => {
+  const db = await openThemeDb();
+  try {
+    return await new Promise<T>((resolve, reject) => {
+      const transaction = db.transaction(THEME_STORE, mode);
+      const request = run(transaction.objectStore(THEME_STORE));
+      transaction.oncomplete = () => resolve(request.result);
+      transaction.onerror = () => reject(transaction.error);
+      transaction.onabort = () => reject(transaction.error);
+    });
+  } finally {
+    db.close();
+  }
+};
+
+const loadLegacyCustomTheme = (): Theme | null => {
+  try {
+    const stored = window.localStorage.getItem(CUSTOM_THEME_KEY);
+    return stored ? parseTheme(JSON.parse(stored)) : null;
+  } catch {
+    return null;
+  }
+};
+
+export const loadCustomTheme = async (): Promise<Theme | null> => {
+  try {
+    const stored = await withThemeStore<unknown>("readonly", (store) =>
+      store.get(CUSTOM_THEME_ID)
+    );
+    if (stored) return parseTheme(stored);
+  } catch {}
+  return loadLegacyCustomTheme();
+};
+
+export const saveCustomTheme = async (theme: Theme): Promise<void> => {
+  await withThemeStore("readwrite", (store) => store.put(theme, CUSTOM_THEME_ID));
+  try {
+    window.localStorage.removeItem(CUSTOM_THEME_KEY);
+  } catch {}
+};
@@ -0,0 +1,182 @@
+import { parseBoard } from "./board";
+import {
+  type Direction,
+  type GameState,
+  type MovePlan,
+  type Spawn,
+  type Tile,
+  applyRecordedMove,
+  createGameFromSpawns,
+  getEmptyCells,
+  gridFromTiles,
+  planMove,
+} from "./engine";
+
+export type TutorialStep = {
+  id: string;
+  title: string;
+  intro: string;
+  board: string;
+  spawns: Spawn[];
+  expected: Direction[];
+  blocked: Partial<Record<Direction, string>>;
+  goal: (tiles: Tile[]) => boolean;
+  success: string;
+};
+
+export type TutorialProgress = {
+  step: number;
+  completed: string[];
+};
+
+export type TutorialMove =
+  | { status: "blocked"; message: string }
+  | { status: "noop"; message: string }
+  | { status: "moved"; state: GameState; plan: MovePlan; message: string };
+
+const TUTORIAL_KEY = "2048:tutorial";
+
+const row = (tiles: Tile[], index: number): number[] =>
+  tiles
+    .filter((tile) => tile.row === index)
+    .sort((a, b) => a.col - b.col)
+    .map((tile) => tile.value);
+
+const hasTileAt = (tiles: Tile[], value: number, rowIndex: number, col: number): boolean =>
+  tiles.some((tile) => tile.value === value && tile.row === rowIndex && tile.col === col);
+
+export const TUTORIAL_STEPS: TutorialStep[] = [
+  {
+    id: "slide",
+    title: "Sliding",
+    intro: "Every move slides all tiles as far as they can go. Press ← to slide the 2 left.",
+    board: "0,0,0,2/0,0,0,0/0,0,0,0/0,0,0,0",
+    spawns: [{ row: 3, col: 3, value: 2 }],
+    expected: ["left"],
+    blocked: {},
+    goal: (tiles) => hasTileAt(tiles, 2, 0, 0),
+    success: "The tile slid until it hit the wall, and a new 2 appeared in an empty cell.",
+  },
+  {
+    id: "merge",
+    title: "Merging",
+    intro: "Two equal tiles that slide into each other merge into one. Push the 2s together.",
+    board: "2,0,0,2/0,0,0,0/0,0,0,0/0,0,0,0",
+    spawns: [{ row: 3, col: 0, value: 2 }],
+    expected: ["left", "right"],
+    blocked: {
+      up: "Up won't bring the 2s together — they're in the same row.",
+      down: "Down won't bring the 2s together — they're in the same row.",
+    },
+    goal: (tiles) => tiles.some((tile) => tile.value === 4),
+    success: "2 + 2 = 4, and the 4 points were added to your score.",
+  },
+  {
+    id: "pairs",
+    title: "Pairs Merge Once",
+    intro: "A row of four 2s. What happens when you press ←?",
+    board: "2,2,2,2/0,0,0,0/0,0,0,0/0,0,0,0",
+    spawns: [{ row: 3, col: 3, value: 2 }],
+    expected: ["left"],
+    blocked: {
+      right: "Let's push left for this one so the result is easy to read.",
+      up: "Push left to see how the row merges.",
+      down: "Push left to see how the row merges.",
+    },
+    goal: (tiles) => row(tiles, 0).join(",") === "4,4",
+    success:
+      "[2,2,2,2] became [4,4], not [8]. Tiles pair up starting from the wall you push toward, " +
+      "and a tile that just merged can't merge again in the same move.",
+  },
+  {
+    id: "corner",
+    title: "Corner Strategy",
+    intro:
+      "Keep your biggest tile in a corner and build a chain toward it. " +
+      "Use ← to fold the bottom row into the 64 until you make 128.",
+    board: "0,0,0,0/0,0,0,0/0,0,0,0/64,32,16,16",
+    spawns: [
+      { row: 0, col: 3, value: 2 },
+      { row: 0, col: 2, value: 2 },
+      { row: 1, col: 3, value: 2 },
+    ],
+    expected: ["left"],
+    blocked: {
+      up: "Up would lift the 64 out of its corner. Keep it anchored at the bottom.",
+      right: "Right would slide the 64 away from the corner and break your chain.",
+    },
+    goal: (tiles) => hasTileAt(tiles, 128, 3, 0),
+    success: "128 in the corner! Keep feeding the chain toward it and 2048 comes naturally.",
+  },
+];
+
+export const stepState = (step: TutorialStep): GameState => {
+  const board = parseBoard(step.board, 4);
+  return createGameFromSpawns(board?.tiles ?? [], board?.size ?? 4);
+};
+
+const nextSpawn = (tiles: Tile[], size: number, step: TutorialStep, turn: number) => {
+  const grid = gridFromTiles(tiles, size);
+  const scripted = step.spawns[turn % step.spawns.length];
+  if (scripted && grid[scripted.row][scripted.col] === 0) return scripted;
+  const [empty] = getEmptyCells(grid);
+  return empty ? { row: empty.r, col: empty.c, value: 2 } : null;
+};
+
+export const explainPlan = (plan: MovePlan): string => {
+  const moved = plan.from.filter((tile) => {
+    const target = plan.targets.get(tile.id);
+    return target && (target.row !== tile.row || target.col !== tile.col);
+  }).length;
+  const merges = plan.finalTiles.filter((tile) => tile.merged).map((tile) => tile.value);
+  const slid = `${moved} ${moved === 1 ? "tile" : "tiles"} slid ${plan.direction}.`;
+  if (merges.length === 0) return slid;
+  const formed = merges.map((value) => `${value / 2} + ${value / 2} = ${value}`).join(", ");
+  return `${slid} Merged ${formed} for +${plan.score} points.`;
+};
+
+export const playTutorialMove = (
+  state: GameState,
+  direction: Direction,
+  step: TutorialStep,
+  turn: number
+): TutorialMove => {
+  const warning = step.blocked[direction];
+  if (warning) return { status: "blocked", message: warning };
+  const { plan } = planMove(state.tiles, direction, state.size, () => 0);
+  if (!plan) return { status: "noop", message: `Nothing can slide ${direction} right now.` };
+  const spawn = nextSpawn(plan.finalTiles, state.size, step, turn);
+  const result = applyRecordedMove(state, direction, spawn);
+  if (!result.plan) return { status: "noop", message: `Nothing can slide ${direction} right now.` };
+  return {
+    status: "moved",
+    state: result.state,
+    plan: result.plan,
+    message: explainPlan(result.plan),
+  };
+};
+
+export const loadTutorialProgress = (): TutorialProgress => {
+  try {
+    const stored: unknown = JSON.parse(window.localStorage.getItem(TUTORIAL_KEY) ?? "null");
+    if (!stored || typeof stored !== "object") return { step: 0, completed: [] };
+    const { step, completed } = stored as Record<string, unknown>;
+    return {
+      step:
+        typeof step === "number" && Number.isInteger(step) && step >= 0
+          ? Math.min(step, TUTORIAL_STEPS.length - 1)
+          : 0,
+      completed: Array.isArray(completed)
+        ? completed.filter((id): id is string => typeof id === "string")
+        : [],
+    };
+  } catch {
+    return { step: 0, completed: [] };
+  }
+};
+
+export const saveTutorialProgress = (progress: TutorialProgress) => {
+  try {
+    window.localStorage.setItem(TUTORIAL_KEY, JSON.stringify(progress));
+  } catch {}
+};
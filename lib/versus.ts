@@ -0,0 +1,110 @@
+import {
+  type Direction,
+  type GameEvent,
+  type GameState,
+  type MovePlan,
+  applyMove,
+  createGame,
+  getEmptyCells,
+  gridFromTiles,
+  isGameOver,
+} from "./engine";
+import { type Rng, createRng, nextRandom } from "./rng";
+
+export type PlayerId = 0 | 1;
+
+export type VersusBoard = {
+  state: GameState;
+  rng: Rng;
+  over: boolean;
+};
+
+export type VersusGame = {
+  seed: string;
+  boards: [VersusBoard, VersusBoard];
+  attackRng: Rng;
+  attacks: boolean;
+  winner: PlayerId | "draw" | null;
+};
+
+export type VersusMove = {
+  game: VersusGame;
+  events: GameEvent[];
+  plan: MovePlan | null;
+  attacked: boolean;
+};
+
+export const ATTACK_TILE = 128;
+export const VERSUS_TARGET = 2048;
+
+const createBoard = (seed: string, size: number): VersusBoard => {
+  const rng = createRng(seed);
+  return { state: createGame(size, rng), rng, over: false };
+};
+
+export const createVersusGame = (seed: string, size: number, attacks: boolean): VersusGame => ({
+  seed,
+  boards: [createBoard(seed, size), createBoard(seed, size)],
+  attackRng: createRng(`${seed}:attack`),
+  attacks,
+  winner: null,
+});
+
+const dropBlocker = (state: GameState, rng: Rng): GameState => {
+  const empty = getEmptyCells(gridFromTiles(state.tiles, state.size));
+  if (empty.length === 0) return state;
+  const pick = empty[Math.floor(nextRandom(rng) * empty.length)];
+  const blocker = {
+    id: state.nextId,
+    value: 0,
+    row: pick.r,
+    col: pick.c,
+    kind: "blocker" as const,
+    isNew: true,
+  };
+  return { ...state, tiles: [...state.tiles, blocker], nextId: state.nextId + 1 };
+};
+
+const maxTileOf = (board: VersusBoard): number =>
+  board.state.tiles.reduce((value, tile) => Math.max(value, tile.value), 0);
+
+const decideWinner = (boards: [VersusBoard, VersusBoard]): VersusGame["winner"] => {
+  const reached = boards.map((board) => maxTileOf(board) >= VERSUS_TARGET);
+  if (reached[0] !== reached[1]) return reached[0] ? 0 : 1;
+  if (!boards[0].over || !boards[1].over) return null;
+  const [first, second] = boards.map((board) => board.state.score);
+  return first === second ? "draw" : first > second ? 0 : 1;
+};
+
+export const playVersusMove = (
+  game: VersusGame,
+  player: PlayerId,
+  direction: Direction
+): VersusMove => {
+  const board = game.boards[player];
+  if (game.winner !== null || board.over) return { game, events: [], plan: null, attacked: false };
+
+  const rng = { ...board.rng };
+  const { state, events, plan } = applyMove(board.state, direction, rng);
+  if (!plan) return { game, events: [], plan: null, attacked: false };
+
+  const boards: [VersusBoard, VersusBoard] = [...game.boards];
+  boards[player] = { state, rng, over: isGameOver(state) };
+
+  const attackRng = { ...game.attackRng };
+  const attacked =
+    game.attacks &&
+    events.some((event) => event.type === "merge" && event.value >= ATTACK_TILE);
+  if (attacked) {
+    const opponent = player === 0 ? 1 : 0;
+    const target = dropBlocker(boards[opponent].state, attackRng);
+    boards[opponent] = { ...boards[opponent], state: target, over: isGameOver(target) };
+  }
+
+  return {
+    game: { ...game, boards, attackRng, winner: decideWinner(boards) },
+    events,
+    plan,
+    attacked,
+  };
+};
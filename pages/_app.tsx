@@ -1,6 +1,33 @@
 import type { AppProps } from "next/app";
+import Head from "next/head";
+import { useServiceWorker } from "../lib/pwa";
+import "../plugins";
 import "../styles/globals.css";
 
 export default function App({ Component, pageProps }: AppProps) {
-  return <Component {...pageProps} />;
+  const { updateReady, applyUpdate, dismissUpdate } = useServiceWorker();
+
+  return (
+    <>
+      <Head>
+        <meta name="viewport" content="width=device-width, initial-scale=1" />
+        <meta name="theme-color" content="#dcd6c9" />
+        <link rel="manifest" href="/manifest.webmanifest" />
+        <link rel="icon" href="/icons/icon.svg" type="image/svg+xml" />
+        <link rel="apple-touch-icon" href="/tiles/8.jpg" />
+      </Head>
+      <Component {...pageProps} />
+      {updateReady && (
+        <div className="update-banner" role="status">
+          <span>A new version is available.</span>
+          <button className="reset" onClick={applyUpdate} type="button">
+            Reload
+          </button>
+          <button className="reset" onClick={dismissUpdate} type="button">
+            Later
+          </button>
+        </div>
+      )}
+    </>
+  );
 }
@@ -0,0 +1,57 @@
+import Link from "next/link";
+import { useEffect, useState } from "react";
+import { ACHIEVEMENTS, type UnlockedAchievements, loadAchievements } from "../lib/achievements";
+
+const formatDate = (time: number): string => new Date(time).toLocaleDateString();
+
+export default function Achievements() {
+  const [unlocked, setUnlocked] = useState<UnlockedAchievements>({});
+
+  useEffect(() => {
+    setUnlocked(loadAchievements());
+  }, []);
+
+  const count = ACHIEVEMENTS.filter((achievement) => unlocked[achievement.id]).length;
+
+  return (
+    <main className="page">
+      <div className="panel">
+        <div>
+          <h1>Achievements</h1>
+          <p className="muted">
+            {count} of {ACHIEVEMENTS.length} unlocked. Games with cheats don’t count.
+          </p>
+        </div>
+        <div className="actions">
+          <Link className="reset" href="/">
+            Back to Game
+          </Link>
+          <Link className="reset" href="/stats">
+            Stats
+          </Link>
+        </div>
+        <ul className="badges">
+          {ACHIEVEMENTS.map((achievement) => {
+            const time = unlocked[achievement.id];
+            return (
+              <li
+                className={`badge ${time ? "" : "badge--locked"}`}
+                key={achievement.id}
+                aria-label={`${achievement.name}, ${time ? "unlocked" : "locked"}`}
+              >
+                <span className="badge-icon" aria-hidden="true">
+                  {achievement.badge}
+                </span>
+                <div>
+                  <strong>{achievement.name}</strong>
+                  <p className="muted">{achievement.description}</p>
+                  {time && <span className="muted">Unlocked {formatDate(time)}</span>}
+                </div>
+              </li>
+            );
+          })}
+        </ul>
+      </div>
+    </main>
+  );
+}
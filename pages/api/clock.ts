@@ -0,0 +1,37 @@
+import type { NextApiRequest, NextApiResponse } from "next";
+import { parseMoves } from "../../lib/leaderboard";
+import { storeError } from "../../lib/scoreStore";
+import { dealClock, stopClock } from "../../lib/serverClock";
+
+type ClockResponse = { seed: string; token: string } | { token: string } | { error: string };
+
+export default async function handler(
+  req: NextApiRequest,
+  res: NextApiResponse<ClockResponse>
+) {
+  if (req.method !== "POST") {
+    res.setHeader("Allow", "POST");
+    res.status(405).json({ error: "Method not allowed." });
+    return;
+  }
+  const { token, seed, moves: rawMoves } = req.body ?? {};
+  try {
+    if (token === undefined) {
+      res.status(200).json(await dealClock());
+      return;
+    }
+    const moves = parseMoves(rawMoves);
+    if (typeof token !== "string" || typeof seed !== "string" || !moves) {
+      res.status(400).json({ error: "Invalid clock request." });
+      return;
+    }
+    const stopped = await stopClock(token, seed, moves);
+    if (!stopped) {
+      res.status(422).json({ error: "This clock wasn't started by the server." });
+      return;
+    }
+    res.status(200).json({ token: stopped });
+  } catch (error) {
+    storeError(res, error);
+  }
+}
@@ -0,0 +1,26 @@
+import type { NextApiRequest, NextApiResponse } from "next";
+import { type RankedEntry, normalizeName } from "../../../lib/leaderboard";
+import { playerEntries, storeError } from "../../../lib/scoreStore";
+
+type PlayerResponse = { entries: RankedEntry[] } | { error: string };
+
+export default async function handler(
+  req: NextApiRequest,
+  res: NextApiResponse<PlayerResponse>
+) {
+  if (req.method !== "GET") {
+    res.setHeader("Allow", "GET");
+    res.status(405).json({ error: "Method not allowed." });
+    return;
+  }
+  const name = typeof req.query.player === "string" ? normalizeName(req.query.player) : "";
+  if (!name) {
+    res.status(400).json({ error: "Missing player name." });
+    return;
+  }
+  try {
+    res.status(200).json({ entries: await playerEntries(name) });
+  } catch (error) {
+    storeError(res, error);
+  }
+}
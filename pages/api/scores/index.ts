@@ -0,0 +1,60 @@
+import type { NextApiRequest, NextApiResponse } from "next";
+import {
+  LEADERBOARD_LIMIT,
+  type RankedEntry,
+  parseSubmission,
+  verifySubmission,
+} from "../../../lib/leaderboard";
+import { isGameMode } from "../../../lib/modes";
+import { addEntry, storeError, submissionId, topEntries } from "../../../lib/scoreStore";
+import { clockSpan } from "../../../lib/serverClock";
+
+const MAX_LIMIT = 100;
+
+type ScoresResponse = { entries: RankedEntry[] } | { entry: RankedEntry } | { error: string };
+
+export default async function handler(
+  req: NextApiRequest,
+  res: NextApiResponse<ScoresResponse>
+) {
+  if (req.method === "GET") {
+    const mode = isGameMode(req.query.mode) ? req.query.mode : "classic";
+    const limit = Math.min(Math.max(Number(req.query.limit) || LEADERBOARD_LIMIT, 1), MAX_LIMIT);
+    try {
+      res.status(200).json({ entries: await topEntries(mode, limit) });
+    } catch (error) {
+      storeError(res, error);
+    }
+    return;
+  }
+
+  if (req.method === "POST") {
+    const submission = parseSubmission(req.body);
+    if (!submission) {
+      res.status(400).json({ error: "Invalid submission." });
+      return;
+    }
+    try {
+      const clock = submission.clockToken
+        ? await clockSpan(submission.clockToken, submission.seed, submission.moves)
+        : null;
+      const result = verifySubmission(submission, Date.now(), clock);
+      if (!result.ok) {
+        res.status(422).json({ error: result.error });
+        return;
+      }
+      const entry = await addEntry({ ...result.entry, id: submissionId(submission) });
+      if (!entry) {
+        res.status(409).json({ error: "This game was already submitted." });
+        return;
+      }
+      res.status(201).json({ entry });
+    } catch (error) {
+      storeError(res, error);
+    }
+    return;
+  }
+
+  res.setHeader("Allow", "GET, POST");
+  res.status(405).json({ error: "Method not allowed." });
+}
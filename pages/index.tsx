@@ -1,233 +1,746 @@
-import { type TouchEvent, useCallback, useEffect, useMemo, useRef, useState } from "react";
+import Link from "next/link";
+import { useCallback, useEffect, useMemo, useRef, useState } from "react";
+import Board from "../components/Board";
+import {
+  type Achievement,
+  type UnlockedAchievements,
+  checkAchievements,
+  loadAchievements,
+  saveAchievements,
+} from "../lib/achievements";
+import {
+  DEFAULT_MOVE_DURATION,
+  MOVE_DURATION_OPTIONS,
+  loadMoveDuration,
+  saveMoveDuration,
+} from "../lib/animation";
+import {
+  type AudioManager,
+  BRUH_SOUND,
+  DEFAULT_SOUND,
+  RICKROLL_SOUND,
+  type SoundSettings,
+  createAudioManager,
+  loadSoundSettings,
+  saveSoundSettings,
+} from "../lib/audio";
+import {
+  MAX_BOARD_SIZE,
+  MIN_BOARD_SIZE,
+  boardToJson,
+  boardToText,
+  cellToken,
+  parseBoard,
+  parseCellToken,
+} from "../lib/board";
+import {
+  CHEAT_BUFFER_LENGTH,
+  CHEAT_CODES,
+  type CheatAction,
+  type CheatSettings,
+  DEFAULT_CHEATS,
+  REWARD_TRIGGERS,
+  isCheatEnabled,
+  loadCheatSettings,
+  matchCheat,
+  matchRewards,
+  saveCheatSettings,
+} from "../lib/cheats";
+import {
+  type Direction,
+  type GameEvent,
+  type GameState,
+  type MovePlan,
+  SPECIAL_TILE_RATES,
+  type Spawn,
+  type Tile,
+  applyMove,
+  applyRecordedMove,
+  createGame,
+  createGameFromSpawns,
+  gridFromTiles,
+  hasMoves,
+  isGameOver,
+  isTileKind,
+  settleTiles,
+} from "../lib/engine";
+import { createEventBus } from "../lib/events";
+import { downloadFile } from "../lib/files";
+import { isEditableTarget, useFocusTrap } from "../lib/focus";
+import {
+  DEAD_ZONE_OPTIONS,
+  DEFAULT_GESTURE,
+  FLICK_OPTIONS,
+  type GestureOptions,
+  loadFastMode,
+  loadGestureOptions,
+  saveFastMode,
+  saveGestureOptions,
+  useGamepadDirections,
+} from "../lib/input";
+import {
+  NAME_MAX_LENGTH,
+  type RankedEntry,
+  fetchLeaderboard,
+  fetchPlayerScores,
+  isStoppedClock,
+  loadPlayerName,
+  normalizeName,
+  savePlayerName,
+  startClock,
+  stopClock,
+  submitScore,
+} from "../lib/leaderboard";
+import { GAME_MODES, type GameMode, MODE_RULES, isGameMode } from "../lib/modes";
+import {
+  type Replay,
+  createReplay,
+  decodeReplayFragment,
+  dropLastMove,
+  encodeReplayFragment,
+  parseReplay,
+  recordMove,
+  replayStates,
+  serializeReplay,
+} from "../lib/replay";
+import { installPlugins } from "../lib/plugins";
+import { type Rng, createRng, createSeed, dailySeed, hashSeed } from "../lib/rng";
+import {
+  type GameResult,
+  copyImage,
+  renderResultCard,
+  resultText,
+  shareResult,
+} from "../lib/share";
+import type { SolverRequest, SolverResponse } from "../lib/solver";
+import { saveGameRecord } from "../lib/stats";
+import {
+  BUILT_IN_THEMES,
+  CUSTOM_THEME_ID,
+  MEME_THEME,
+  type Theme,
+  loadCustomTheme,
+  loadThemeFiles,
+  loadThemeId,
+  resolveTile,
+  saveCustomTheme,
+  saveThemeId,
+  tileLabel,
+  tileVisualStyle,
+} from "../lib/themes";
 
-type Grid = number[][];
+type ActiveMove = {
+  plan: MovePlan;
+  next: GameState;
+  events: GameEvent[];
+  rngBefore: number;
+  rngAfter: number;
+  source: "player" | "replay";
+  fast: boolean;
+};
 
-type Direction = "left" | "right" | "up" | "down";
+type Playback = {
+  replay: Replay;
+  states: GameState[];
+  index: number;
+  playing: boolean;
+  speed: number;
+};
 
-type Tile = {
-  id: number;
-  value: number;
-  row: number;
-  col: number;
-  merged?: boolean;
-  isNew?: boolean;
-  moving?: boolean;
+type BoardEditor = {
+  size: number;
+  tiles: Spawn[];
+  score: number;
+  brush: string;
+  text: string;
+  error: string;
 };
 
-type MovePlan = {
-  targets: Map<number, { row: number; col: number }>;
+type SubmitStatus = {
+  state: "idle" | "sending" | "done" | "error";
+  message: string;
+};
+
+type SolverPurpose = "hint" | "autoplay";
+
+type SolverResult = {
+  direction: Direction | null;
+  purpose: SolverPurpose;
+  boardKey: string;
+};
+
+type HistoryEntry = {
+  direction: Direction;
+  before: Tile[];
+  after: Tile[];
   finalTiles: Tile[];
+  spawned: Tile | null;
+  scoreDelta: number;
+  newMerges: number[];
+  rngBefore: number;
+  rngAfter: number;
+};
+
+type History = {
+  past: HistoryEntry[];
+  future: HistoryEntry[];
+};
+
+type SaveMigration = (data: Record<string, unknown>) => Record<string, unknown>;
+
+type SavedGame = {
+  version: typeof SAVE_VERSION;
+  tiles: Tile[];
   score: number;
-  steps: number;
-  direction: Direction;
+  seenMerges: number[];
+  cheatEnabled: boolean;
+  assisted: boolean;
+  nextId: number;
+  size: number;
+  target: number;
+  seed: string;
+  rngState: number;
+  replay: Replay;
+  startedAt: number;
+  moves: number;
+  mode: GameMode;
+  elapsedMs: number;
+  keepGoing: boolean;
+  specialTiles: boolean;
+  undoUsed: boolean;
+  undoBudget: boolean;
+  undosLeft: number;
+  clockToken: string | null;
 };
 
-const SIZE = 4;
-const GAP = 8;
-const PAD = 12;
-const MOVE_STEP_MS = 90;
-
-const TILE_IMAGES: Record<number, string> = {
-  2: "/tiles/2.webp",
-  4: "/tiles/4.jpg",
-  8: "/tiles/8.jpg",
-  16: "/tiles/16.webp",
-  32: "/tiles/32.jpeg",
-  64: "/tiles/64.jpeg",
-  128: "/tiles/128.jpg",
-  256: "/tiles/256.jpg",
-  512: "/tiles/512.jpeg",
-  1024: "/tiles/1024.png",
-  2048: "/tiles/2048.jpg",
+const DEFAULT_SIZE = 4;
+const DEFAULT_TARGET = 2048;
+const TARGET_OPTIONS = [256, 512, 1024, 2048, 4096, 8192, 16384];
+const SIZE_OPTIONS = Array.from(
+  { length: MAX_BOARD_SIZE - MIN_BOARD_SIZE + 1 },
+  (_, index) => MIN_BOARD_SIZE + index
+);
+const CHEAT_BOARD: Spawn[] = [
+  { row: 0, col: 0, value: 1024 },
+  { row: 0, col: 1, value: 1024 },
+];
+const EDITOR_BRUSHES = [
+  { token: "0", label: "Erase" },
+  ...Array.from({ length: 16 }, (_, index) => ({
+    token: String(2 ** (index + 1)),
+    label: String(2 ** (index + 1)),
+  })),
+  { token: "x", label: "Stone" },
+  { token: "w", label: "Wildcard" },
+  { token: "b2", label: "Bomb (2)" },
+];
+const MOVE_QUEUE_LIMIT = 8;
+const FAST_QUEUE_DEPTH = 2;
+const HISTORY_LIMIT = 100;
+const UNDO_BUDGET = 3;
+const SAVE_KEY = "2048:save";
+const BEST_SCORE_KEY = "2048:best";
+const SAVE_VERSION = 12;
+const REWARD_DELAY_MS = 1000;
+const TOAST_MS = 3500;
+const TIMER_TICK_MS = 250;
+const REPLAY_DELAY_MS = 500;
+const REPLAY_SPEEDS = [0.5, 1, 2, 4];
+const AUTOPLAY_SPEEDS = [
+  { label: "Fast", delay: 50 },
+  { label: "Normal", delay: 250 },
+  { label: "Slow", delay: 600 },
+];
+const KEY_DIRECTIONS: Record<string, Direction> = {
+  ArrowLeft: "left",
+  ArrowRight: "right",
+  ArrowUp: "up",
+  ArrowDown: "down",
+  a: "left",
+  d: "right",
+  w: "up",
+  s: "down",
+  h: "left",
+  l: "right",
+  k: "up",
+  j: "down",
+};
+const DIRECTION_ARROWS: Record<Direction, string> = {
+  left: "←",
+  right: "→",
+  up: "↑",
+  down: "↓",
 };
 
-const createEmptyGrid = (): Grid =>
-  Array.from({ length: SIZE }, () => Array.from({ length: SIZE }, () => 0));
+const emptyHistory = (): History => ({ past: [], future: [] });
 
-const getEmptyCells = (grid: Grid): Array<{ r: number; c: number }> => {
-  const cells: Array<{ r: number; c: number }> = [];
-  for (let r = 0; r < SIZE; r += 1) {
-    for (let c = 0; c < SIZE; c += 1) {
-      if (grid[r][c] === 0) cells.push({ r, c });
-    }
-  }
-  return cells;
+const isTile = (value: unknown, size: number): value is Tile => {
+  if (!value || typeof value !== "object") return false;
+  const tile = value as Record<string, unknown>;
+  return (
+    typeof tile.id === "number" &&
+    typeof tile.value === "number" &&
+    typeof tile.row === "number" &&
+    typeof tile.col === "number" &&
+    (tile.kind === undefined || isTileKind(tile.kind)) &&
+    tile.row >= 0 &&
+    tile.row < size &&
+    tile.col >= 0 &&
+    tile.col < size
+  );
 };
 
-const gridFromTiles = (tiles: Tile[]): Grid => {
-  const grid = createEmptyGrid();
-  for (const tile of tiles) {
-    grid[tile.row][tile.col] = tile.value;
-  }
-  return grid;
+const SAVE_MIGRATIONS: Record<number, SaveMigration> = {
+  1: (data) => ({ ...data, version: 2, size: DEFAULT_SIZE, target: DEFAULT_TARGET }),
+  2: (data) => {
+    const seed = createSeed();
+    return { ...data, version: 3, seed, rngState: hashSeed(seed) };
+  },
+  3: (data) => ({ ...data, version: 4 }),
+  4: (data) => ({ ...data, version: 5, startedAt: Date.now(), moves: 0 }),
+  5: (data) => ({ ...data, version: 6, mode: "classic", elapsedMs: 0, keepGoing: false }),
+  6: (data) => ({ ...data, version: 7, specialTiles: false }),
+  7: ({ soundEnabled: _, ...data }) => ({ ...data, version: 8 }),
+  8: (data) => ({ ...data, version: 9, undoUsed: true }),
+  9: (data) => ({ ...data, version: 10, clockToken: null }),
+  10: (data) => ({ ...data, version: 11, assisted: false }),
+  11: (data) => ({ ...data, version: 12, undoBudget: false, undosLeft: UNDO_BUDGET }),
 };
 
-const addRandomTile = (tiles: Tile[], createId: () => number): Tile[] => {
-  const grid = gridFromTiles(tiles);
-  const empty = getEmptyCells(grid);
-  if (empty.length === 0) return tiles;
-  const pick = empty[Math.floor(Math.random() * empty.length)];
-  const value = Math.random() < 0.9 ? 2 : 4;
-  return [
-    ...tiles,
-    {
-      id: createId(),
-      value,
-      row: pick.r,
-      col: pick.c,
-      isNew: true,
-    },
-  ];
+const migrateSave = (raw: unknown): SavedGame | null => {
+  if (!raw || typeof raw !== "object") return null;
+  let data = raw as Record<string, unknown>;
+  while (typeof data.version === "number" && data.version < SAVE_VERSION) {
+    const migrate = SAVE_MIGRATIONS[data.version];
+    if (!migrate) return null;
+    data = migrate(data);
+  }
+  if (data.version !== SAVE_VERSION) return null;
+  const size = data.size;
+  if (typeof size !== "number" || !SIZE_OPTIONS.includes(size)) return null;
+  if (typeof data.target !== "number" || !TARGET_OPTIONS.includes(data.target)) return null;
+  if (!Array.isArray(data.tiles) || !data.tiles.every((tile) => isTile(tile, size))) return null;
+  if (typeof data.score !== "number" || typeof data.nextId !== "number") return null;
+  if (typeof data.seed !== "string" || typeof data.rngState !== "number") return null;
+  if (typeof data.startedAt !== "number" || typeof data.moves !== "number") return null;
+  if (!isGameMode(data.mode) || typeof data.elapsedMs !== "number") return null;
+  const tiles = settleTiles(data.tiles);
+  return {
+    version: SAVE_VERSION,
+    tiles,
+    score: data.score,
+    seenMerges: Array.isArray(data.seenMerges)
+      ? data.seenMerges.filter((value): value is number => typeof value === "number")
+      : [],
+    cheatEnabled: data.cheatEnabled === true,
+    assisted: data.assisted === true,
+    nextId: data.nextId,
+    size,
+    target: data.target,
+    seed: data.seed,
+    rngState: data.rngState,
+    replay:
+      parseReplay(data.replay) ?? createReplay(data.seed, size, tiles, data.score, data.mode),
+    startedAt: data.startedAt,
+    moves: data.moves,
+    mode: data.mode,
+    elapsedMs: data.elapsedMs,
+    keepGoing: data.keepGoing === true,
+    specialTiles: data.specialTiles === true,
+    undoUsed: data.undoUsed !== false,
+    undoBudget: data.undoBudget === true,
+    undosLeft:
+      typeof data.undosLeft === "number" && data.undosLeft >= 0 && data.undosLeft <= UNDO_BUDGET
+        ? data.undosLeft
+        : UNDO_BUDGET,
+    clockToken: typeof data.clockToken === "string" ? data.clockToken : null,
+  };
 };
 
-const hasMoves = (grid: Grid): boolean => {
-  if (getEmptyCells(grid).length > 0) return true;
-  for (let r = 0; r < SIZE; r += 1) {
-    for (let c = 0; c < SIZE; c += 1) {
-      const value = grid[r][c];
-      if (r < SIZE - 1 && grid[r + 1][c] === value) return true;
-      if (c < SIZE - 1 && grid[r][c + 1] === value) return true;
-    }
+const loadGame = (): SavedGame | null => {
+  try {
+    const stored = window.localStorage.getItem(SAVE_KEY);
+    if (!stored) return null;
+    const game = migrateSave(JSON.parse(stored));
+    if (!game) window.localStorage.removeItem(SAVE_KEY);
+    return game;
+  } catch {
+    return null;
   }
-  return false;
 };
 
-const planMove = (
-  tiles: Tile[],
-  direction: Direction,
-  createId: () => number
-): { plan: MovePlan | null; moved: boolean } => {
-  let score = 0;
-  let moved = false;
-  let maxDistance = 0;
-  const targets = new Map<number, { row: number; col: number }>();
-  const finalTiles: Tile[] = [];
-
-  const isHorizontal = direction === "left" || direction === "right";
-  const forward = direction === "left" || direction === "up";
-
-  for (let line = 0; line < SIZE; line += 1) {
-    const tilesInLine = tiles
-      .filter((tile) => (isHorizontal ? tile.row === line : tile.col === line))
-      .sort((a, b) =>
-        forward
-          ? isHorizontal
-            ? a.col - b.col
-            : a.row - b.row
-          : isHorizontal
-          ? b.col - a.col
-          : b.row - a.row
-      );
+const saveGame = (game: SavedGame) => {
+  try {
+    window.localStorage.setItem(SAVE_KEY, JSON.stringify(game));
+  } catch {}
+};
 
-    const groups: Array<{ tiles: Tile[]; value: number; merged: boolean }> = [];
+const emptyBestScores = (): Record<GameMode, number> => ({
+  classic: 0,
+  timeAttack: 0,
+  moveLimited: 0,
+  zen: 0,
+});
 
-    for (const tile of tilesInLine) {
-      const last = groups[groups.length - 1];
-      if (last && !last.merged && last.value === tile.value) {
-        last.tiles.push(tile);
-        last.value *= 2;
-        last.merged = true;
-        score += last.value;
-        moved = true;
-      } else {
-        groups.push({ tiles: [tile], value: tile.value, merged: false });
+const loadBestScores = (): Record<GameMode, number> => {
+  const scores = emptyBestScores();
+  try {
+    const stored: unknown = JSON.parse(window.localStorage.getItem(BEST_SCORE_KEY) ?? "null");
+    if (typeof stored === "number") {
+      scores.classic = stored;
+    } else if (stored && typeof stored === "object") {
+      for (const [mode, value] of Object.entries(stored)) {
+        if (isGameMode(mode) && typeof value === "number") scores[mode] = value;
       }
     }
+  } catch {}
+  return scores;
+};
 
-    groups.forEach((group, index) => {
-      const position = forward ? index : SIZE - 1 - index;
-      const row = isHorizontal ? line : position;
-      const col = isHorizontal ? position : line;
+const saveBestScores = (scores: Record<GameMode, number>) => {
+  try {
+    window.localStorage.setItem(BEST_SCORE_KEY, JSON.stringify(scores));
+  } catch {}
+};
 
-      for (const tile of group.tiles) {
-        targets.set(tile.id, { row, col });
-        const distance = Math.abs(tile.row - row) + Math.abs(tile.col - col);
-        maxDistance = Math.max(maxDistance, distance);
-        if (distance > 0) moved = true;
-      }
+const formatClock = (ms: number): string => {
+  const seconds = Math.max(0, Math.ceil(ms / 1000));
+  return `${Math.floor(seconds / 60)}:${String(seconds % 60).padStart(2, "0")}`;
+};
 
-      if (group.merged) {
-        finalTiles.push({
-          id: createId(),
-          value: group.value,
-          row,
-          col,
-          merged: true,
-        });
-      } else {
-        const tile = group.tiles[0];
-        finalTiles.push({
-          ...tile,
-          row,
-          col,
-          merged: false,
-          isNew: false,
-          moving: false,
-        });
-      }
-    });
+const readUrlGame = (): { seed: string | null; size: number } => {
+  const params = new URLSearchParams(window.location.search);
+  const size = Number(params.get("size"));
+  return {
+    seed: params.get("seed"),
+    size: SIZE_OPTIONS.includes(size) ? size : DEFAULT_SIZE,
+  };
+};
+
+const writeUrlGame = (seed: string, size: number) => {
+  const url = new URL(window.location.href);
+  url.searchParams.set("seed", seed);
+  if (size === DEFAULT_SIZE) {
+    url.searchParams.delete("size");
+  } else {
+    url.searchParams.set("size", String(size));
   }
+  window.history.replaceState(window.history.state, "", url);
+};
 
-  if (!moved) return { plan: null, moved: false };
+const clearReplayFragment = () => {
+  const url = new URL(window.location.href);
+  url.hash = "";
+  window.history.replaceState(window.history.state, "", url);
+};
 
-  return {
-    plan: {
-      targets,
-      finalTiles,
-      score,
-      steps: Math.max(maxDistance, 1),
-      direction,
-    },
-    moved: true,
-  };
+const spokenTile = (tile: Tile): string =>
+  tile.kind === "bomb" ? `bomb ${tileLabel(tile)}` : tileLabel(tile);
+
+const describeMove = (events: GameEvent[]): string => {
+  let direction: Direction | null = null;
+  let gained = 0;
+  const merges: Array<{ value: number; tiles: Tile[] }> = [];
+  let spawned: Tile | null = null;
+  let cleared = 0;
+  for (const event of events) {
+    if (event.type === "move") {
+      direction = event.direction;
+      gained = event.score;
+    } else if (event.type === "merge") {
+      merges.push(event);
+    } else if (event.type === "spawn") {
+      spawned = event.tile;
+    } else if (event.type === "clear") {
+      cleared += event.tiles.length;
+    }
+  }
+  if (!direction) return "";
+  const merged = merges.length
+    ? `, merged ${merges
+        .map(({ value, tiles }) => `${tiles.map(spokenTile).join(" and ")} into ${value}`)
+        .join(", ")}, +${gained}`
+    : "";
+  const spawn = spawned
+    ? ` New ${spokenTile(spawned)} at row ${spawned.row + 1}, column ${spawned.col + 1}.`
+    : "";
+  const clear = cleared ? ` Cleared ${cleared} tiles.` : "";
+  return `Moved ${direction}${merged}.${spawn}${clear}`;
 };
 
+const boardKeyOf = (tiles: Tile[]): string =>
+  tiles
+    .map((tile) => `${tile.row},${tile.col},${tile.kind ?? tile.value}`)
+    .sort()
+    .join("|");
+
+const brushLabel = (token: string): string =>
+  EDITOR_BRUSHES.find((brush) => brush.token === token)?.label ?? token;
+
 export default function Home() {
   const idRef = useRef(1);
-  const createId = useCallback(() => idRef.current++, []);
-  const boardRef = useRef<HTMLDivElement | null>(null);
-  const moveRef = useRef<MovePlan | null>(null);
-  const stepTimeoutRef = useRef<number | null>(null);
   const popupTimeoutRef = useRef<number | null>(null);
   const rickrollTimeoutRef = useRef<number | null>(null);
   const rickrollImageTimeoutRef = useRef<number | null>(null);
   const seenMergesRef = useRef<Set<number>>(new Set());
-  const audioRef = useRef<HTMLAudioElement | null>(null);
-  const rickrollAudioRef = useRef<HTMLAudioElement | null>(null);
-  const touchStartRef = useRef<{ x: number; y: number } | null>(null);
+  const audioRef = useRef<AudioManager | null>(null);
+  const moveQueueRef = useRef<Direction[]>([]);
+  const undoUsedRef = useRef(false);
+  const chainMergesRef = useRef(0);
+  const achievementsRef = useRef<UnlockedAchievements>({});
+  const rngRef = useRef<Rng>({ state: 0 });
+  const liveGameRef = useRef<{ tiles: Tile[]; score: number } | null>(null);
+  const replayInputRef = useRef<HTMLInputElement | null>(null);
+  const solverRef = useRef<Worker | null>(null);
+  const solverRequestRef = useRef<{ id: number; purpose: SolverPurpose; boardKey: string }>({
+    id: 0,
+    purpose: "hint",
+    boardKey: "",
+  });
+  const solverPendingRef = useRef(false);
+  const startedAtRef = useRef(Date.now());
+  const elapsedRef = useRef(0);
+  const savedGameRef = useRef<SavedGame | null>(null);
+  const themeInputRef = useRef<HTMLInputElement | null>(null);
+  const gameOverRef = useRef<HTMLDivElement | null>(null);
+  const winRef = useRef<HTMLDivElement | null>(null);
+  const rickrollRef = useRef<HTMLDivElement | null>(null);
 
+  const [bus] = useState(createEventBus);
   const [tiles, setTiles] = useState<Tile[]>(() => []);
   const [score, setScore] = useState(0);
+  const [bestScores, setBestScores] = useState(emptyBestScores);
   const [gameOver, setGameOver] = useState(false);
   const [hydrated, setHydrated] = useState(false);
-  const [cellSize, setCellSize] = useState(0);
-  const [isAnimating, setIsAnimating] = useState(false);
+  const [activeMove, setActiveMove] = useState<ActiveMove | null>(null);
+  const [pendingDoubles, setPendingDoubles] = useState(0);
   const [popupValue, setPopupValue] = useState<number | null>(null);
   const [rickrollVisible, setRickrollVisible] = useState(false);
   const [rickrollImageVisible, setRickrollImageVisible] = useState(false);
-  const [soundEnabled, setSoundEnabled] = useState(false);
+  const [sound, setSound] = useState<SoundSettings>(DEFAULT_SOUND);
   const [cheatEnabled, setCheatEnabled] = useState(false);
+  const [assisted, setAssisted] = useState(false);
   const [cheatBuffer, setCheatBuffer] = useState("");
-  const [isTouchDevice, setIsTouchDevice] = useState(false);
+  const [cheatSettings, setCheatSettings] = useState<CheatSettings>(DEFAULT_CHEATS);
+  const [toasts, setToasts] = useState<Achievement[]>([]);
+  const [history, setHistory] = useState<History>(emptyHistory);
+  const [undoBudgetEnabled, setUndoBudgetEnabled] = useState(false);
+  const [undosLeft, setUndosLeft] = useState(UNDO_BUDGET);
+  const [boardSize, setBoardSize] = useState(DEFAULT_SIZE);
+  const [targetTile, setTargetTile] = useState(DEFAULT_TARGET);
+  const [settingsOpen, setSettingsOpen] = useState(false);
+  const [draftSize, setDraftSize] = useState(DEFAULT_SIZE);
+  const [draftTarget, setDraftTarget] = useState(DEFAULT_TARGET);
+  const [mode, setMode] = useState<GameMode>("classic");
+  const [draftMode, setDraftMode] = useState<GameMode>("classic");
+  const [specialTiles, setSpecialTiles] = useState(false);
+  const [gesture, setGesture] = useState<GestureOptions>(DEFAULT_GESTURE);
+  const [fastMode, setFastMode] = useState(true);
+  const [moveDuration, setMoveDuration] = useState(DEFAULT_MOVE_DURATION);
+  const [draftSpecialTiles, setDraftSpecialTiles] = useState(false);
+  const [elapsedMs, setElapsedMs] = useState(0);
+  const [keepGoing, setKeepGoing] = useState(false);
+  const [draftSeed, setDraftSeed] = useState("");
+  const [seed, setSeed] = useState("");
+  const [replay, setReplay] = useState<Replay>(() => createReplay("", DEFAULT_SIZE, []));
+  const [playback, setPlayback] = useState<Playback | null>(null);
+  const [solverResult, setSolverResult] = useState<SolverResult | null>(null);
+  const [autoplay, setAutoplay] = useState(false);
+  const [autoplayDelay, setAutoplayDelay] = useState(AUTOPLAY_SPEEDS[1].delay);
+  const [moveCount, setMoveCount] = useState(0);
+  const [themeId, setThemeId] = useState(MEME_THEME.id);
+  const [customTheme, setCustomTheme] = useState<Theme | null>(null);
+  const [announcement, setAnnouncement] = useState("");
+  const [editor, setEditor] = useState<BoardEditor | null>(null);
+  const [playerName, setPlayerName] = useState("");
+  const [submitStatus, setSubmitStatus] = useState<SubmitStatus>({ state: "idle", message: "" });
+  const [leaderboard, setLeaderboard] = useState<RankedEntry[]>([]);
+  const [playerRanks, setPlayerRanks] = useState<RankedEntry[]>([]);
+  const [leaderboardError, setLeaderboardError] = useState("");
+  const [clockToken, setClockToken] = useState<string | null>(null);
+  const [shareCard, setShareCard] = useState<{ blob: Blob; url: string } | null>(null);
+  const [shareStatus, setShareStatus] = useState("");
 
-  const canMove = useMemo(() => hasMoves(gridFromTiles(tiles)), [tiles]);
+  const grid = useMemo(() => gridFromTiles(tiles, boardSize), [boardSize, tiles]);
+  const canMove = useMemo(() => hasMoves(grid), [grid]);
   const maxTile = useMemo(
     () => tiles.reduce((value, tile) => Math.max(value, tile.value), 0),
     [tiles]
   );
+  const won = maxTile >= targetTile;
+  const soundEnabled = !sound.muted;
+  const rules = MODE_RULES[mode];
+  const started = moveCount > 0;
+  const clockRunning = started || clockToken !== null;
+  const clockStopping = !!rules.timeLimitMs && !!clockToken && !isStoppedClock(clockToken);
+  const modeResult = rules.result({ score, maxTile });
+  const isAnimating = activeMove !== null;
+
+  elapsedRef.current = elapsedMs;
+  const showWin = rules.showsWin && won && !keepGoing && !gameOver && !playback;
+  const gameOverReason = canMove
+    ? rules.timeLimitMs !== undefined
+      ? "Time's up."
+      : rules.moveLimit !== undefined
+      ? "Out of moves."
+      : null
+    : null;
+  const boardKey = useMemo(() => boardKeyOf(tiles), [tiles]);
+  const themes = useMemo(
+    () => (customTheme ? [...BUILT_IN_THEMES, customTheme] : BUILT_IN_THEMES),
+    [customTheme]
+  );
+  const theme = themes.find((item) => item.id === themeId) ?? MEME_THEME;
+  const hint =
+    solverResult?.purpose === "hint" && solverResult.boardKey === boardKey
+      ? solverResult.direction
+      : null;
 
   useEffect(() => {
-    if (!canMove) setGameOver(true);
-  }, [canMove]);
+    if (gameOver || playback) return;
+    if (!rules.isFinished({ canMove, moves: moveCount, elapsedMs })) return;
+    moveQueueRef.current = [];
+    setGameOver(true);
+  }, [canMove, elapsedMs, gameOver, moveCount, playback, rules]);
+
+  const saveElapsed = useCallback(() => {
+    const saved = savedGameRef.current;
+    if (saved) saveGame({ ...saved, elapsedMs: elapsedRef.current });
+  }, []);
+
+  useEffect(() => {
+    if (!rules.timeLimitMs || gameOver || playback || !clockRunning) return;
+    let last = Date.now();
+    const timer = window.setInterval(() => {
+      const now = Date.now();
+      setElapsedMs((prev) => prev + now - last);
+      last = now;
+    }, TIMER_TICK_MS);
+    const handleVisibility = () => {
+      if (document.visibilityState === "hidden") saveElapsed();
+    };
+    document.addEventListener("visibilitychange", handleVisibility);
+    return () => {
+      window.clearInterval(timer);
+      document.removeEventListener("visibilitychange", handleVisibility);
+      saveElapsed();
+    };
+  }, [clockRunning, gameOver, playback, rules, saveElapsed]);
+
+  useFocusTrap(gameOverRef, gameOver && !playback);
+  useFocusTrap(winRef, showWin);
+  useFocusTrap(rickrollRef, rickrollVisible);
 
   useEffect(() => {
     if (hydrated) return;
-    let next = addRandomTile([], createId);
-    next = addRandomTile(next, createId);
-    setTiles(next);
+    setBestScores(loadBestScores());
+    loadCustomTheme().then((stored) => setCustomTheme((current) => current ?? stored));
+    setThemeId(loadThemeId() ?? MEME_THEME.id);
+    setSound(loadSoundSettings());
+    setCheatSettings(loadCheatSettings());
+    achievementsRef.current = loadAchievements();
+    setGesture(loadGestureOptions());
+    setFastMode(loadFastMode());
+    setMoveDuration(loadMoveDuration());
+    setPlayerName(loadPlayerName());
+    const saved = loadGame();
+    const urlGame = readUrlGame();
+    if (saved && (!urlGame.seed || (urlGame.seed === saved.seed && urlGame.size === saved.size))) {
+      idRef.current = Math.max(saved.nextId, ...saved.tiles.map((tile) => tile.id + 1));
+      seenMergesRef.current = new Set(saved.seenMerges);
+      setTiles(saved.tiles);
+      setScore(saved.score);
+      setCheatEnabled(saved.cheatEnabled);
+      setAssisted(saved.assisted);
+      setBoardSize(saved.size);
+      setTargetTile(saved.target);
+      setSeed(saved.seed);
+      setReplay(saved.replay);
+      setMoveCount(saved.moves);
+      startedAtRef.current = saved.startedAt;
+      setMode(saved.mode);
+      setElapsedMs(saved.elapsedMs);
+      setKeepGoing(saved.keepGoing);
+      setSpecialTiles(saved.specialTiles);
+      undoUsedRef.current = saved.undoUsed;
+      setUndoBudgetEnabled(saved.undoBudget);
+      setUndosLeft(saved.undosLeft);
+      setClockToken(saved.clockToken);
+      rngRef.current = { state: saved.rngState };
+    } else {
+      const nextSeed = urlGame.seed ?? createSeed();
+      rngRef.current = createRng(nextSeed);
+      setBoardSize(urlGame.size);
+      setSeed(nextSeed);
+      const game = createGame(urlGame.size, rngRef.current, idRef.current);
+      idRef.current = game.nextId;
+      setTiles(game.tiles);
+      setReplay(createReplay(nextSeed, urlGame.size, game.tiles));
+    }
     setHydrated(true);
   }, [hydrated]);
 
+  useEffect(() => {
+    if (!hydrated || isAnimating || playback) return;
+    const game: SavedGame = {
+      version: SAVE_VERSION,
+      tiles: settleTiles(tiles),
+      score,
+      seenMerges: Array.from(seenMergesRef.current),
+      cheatEnabled,
+      assisted,
+      nextId: idRef.current,
+      size: boardSize,
+      target: targetTile,
+      seed,
+      rngState: rngRef.current.state,
+      replay,
+      startedAt: startedAtRef.current,
+      moves: moveCount,
+      mode,
+      elapsedMs: elapsedRef.current,
+      keepGoing,
+      specialTiles,
+      undoUsed: undoUsedRef.current,
+      undoBudget: undoBudgetEnabled,
+      undosLeft,
+      clockToken,
+    };
+    savedGameRef.current = game;
+    saveGame(game);
+  }, [
+    assisted,
+    boardSize,
+    cheatEnabled,
+    clockToken,
+    hydrated,
+    isAnimating,
+    keepGoing,
+    mode,
+    moveCount,
+    playback,
+    replay,
+    score,
+    seed,
+    specialTiles,
+    targetTile,
+    tiles,
+    undoBudgetEnabled,
+    undosLeft,
+  ]);
+
+  useEffect(() => {
+    if (!hydrated) return;
+    writeUrlGame(seed, boardSize);
+  }, [boardSize, hydrated, seed]);
+
+  useEffect(() => {
+    if (playback || modeResult <= bestScores[mode]) return;
+    const next = { ...bestScores, [mode]: modeResult };
+    setBestScores(next);
+    saveBestScores(next);
+  }, [bestScores, mode, modeResult, playback]);
+
   useEffect(() => {
     if (!tiles.some((tile) => tile.isNew || tile.merged)) return;
     const timer = window.setTimeout(() => {
@@ -241,425 +754,1629 @@ export default function Home() {
   }, [tiles]);
 
   useEffect(() => {
-    const coarse = window.matchMedia?.("(pointer: coarse)").matches;
-    setIsTouchDevice(coarse || "ontouchstart" in window);
-  }, []);
-
-  useEffect(() => {
-    const update = () => {
-      if (!boardRef.current) return;
-      const width = boardRef.current.clientWidth - PAD * 2;
-      const nextCell = (width - GAP * (SIZE - 1)) / SIZE;
-      setCellSize(nextCell);
+    if (typeof Worker === "undefined") return;
+    const worker = new Worker(new URL("../lib/solver.worker.ts", import.meta.url));
+    worker.onmessage = (event: MessageEvent<SolverResponse>) => {
+      const request = solverRequestRef.current;
+      if (event.data.id !== request.id) return;
+      solverPendingRef.current = false;
+      setSolverResult({
+        direction: event.data.direction,
+        purpose: request.purpose,
+        boardKey: request.boardKey,
+      });
+    };
+    solverRef.current = worker;
+    return () => {
+      worker.terminate();
+      solverRef.current = null;
     };
-    update();
-    window.addEventListener("resize", update);
-    return () => window.removeEventListener("resize", update);
   }, []);
 
   useEffect(() => {
-    if (!isTouchDevice) return;
     if (!rickrollVisible) return;
-    if (!soundEnabled) return;
-    if (!rickrollAudioRef.current) {
-      rickrollAudioRef.current = new Audio("/Voicy_Rickroll.mp3");
-      rickrollAudioRef.current.loop = true;
-    }
-    rickrollAudioRef.current.currentTime = 0;
-    rickrollAudioRef.current.volume = 1;
-    rickrollAudioRef.current.play().catch(() => {});
+    if (soundEnabled) audioRef.current?.playLoop(RICKROLL_SOUND);
     if (rickrollImageTimeoutRef.current) window.clearTimeout(rickrollImageTimeoutRef.current);
     setRickrollImageVisible(false);
     rickrollImageTimeoutRef.current = window.setTimeout(
       () => setRickrollImageVisible(true),
       700
     );
-  }, [isTouchDevice, rickrollVisible, soundEnabled]);
+  }, [rickrollVisible, soundEnabled]);
 
   useEffect(() => {
     return () => {
-      if (stepTimeoutRef.current) window.clearTimeout(stepTimeoutRef.current);
       if (popupTimeoutRef.current) window.clearTimeout(popupTimeoutRef.current);
       if (rickrollTimeoutRef.current) window.clearTimeout(rickrollTimeoutRef.current);
       if (rickrollImageTimeoutRef.current) window.clearTimeout(rickrollImageTimeoutRef.current);
-      if (audioRef.current) {
-        audioRef.current.pause();
-        audioRef.current.src = "";
-        audioRef.current.load();
-      }
-      if (rickrollAudioRef.current) {
-        rickrollAudioRef.current.pause();
-        rickrollAudioRef.current.src = "";
-        rickrollAudioRef.current.load();
-      }
     };
   }, []);
 
-  const runStep = () => {
-    const active = moveRef.current;
-    if (!active) return;
-
-    setTiles((prev) =>
-      prev.map((tile) => {
-        const target = active.targets.get(tile.id);
-        if (!target) return tile;
-        let { row, col } = tile;
-        if (active.direction === "left" && col > target.col) col -= 1;
-        if (active.direction === "right" && col < target.col) col += 1;
-        if (active.direction === "up" && row > target.row) row -= 1;
-        if (active.direction === "down" && row < target.row) row += 1;
-        const moving = row !== target.row || col !== target.col;
-        return { ...tile, row, col, moving };
-      })
-    );
+  useEffect(() => {
+    const manager = createAudioManager();
+    audioRef.current = manager;
+    manager.preload([BRUH_SOUND, RICKROLL_SOUND]).catch(() => {});
+    const unlock = () => manager.unlock();
+    window.addEventListener("keydown", unlock, { once: true });
+    window.addEventListener("pointerdown", unlock, { once: true });
+    return () => {
+      window.removeEventListener("keydown", unlock);
+      window.removeEventListener("pointerdown", unlock);
+      manager.close();
+      audioRef.current = null;
+    };
+  }, []);
+
+  useEffect(() => {
+    audioRef.current?.setSettings(sound);
+    if (hydrated) saveSoundSettings(sound);
+  }, [hydrated, sound]);
+
+  useEffect(() => installPlugins(bus), [bus]);
+
+  useEffect(() => {
+    const subscriptions = [
+      bus.on("move", ({ events }) => setAnnouncement(describeMove(events))),
+      bus.on("move", ({ newValues }) => {
+        if (newValues.length === 0) return;
+        newValues.forEach((value) => seenMergesRef.current.add(value));
+        setPopupValue(Math.max(...newValues));
+        if (popupTimeoutRef.current) window.clearTimeout(popupTimeoutRef.current);
+        popupTimeoutRef.current = window.setTimeout(() => setPopupValue(null), 1050);
+      }),
+      bus.on("restart", () => {
+        seenMergesRef.current = new Set();
+        chainMergesRef.current = 0;
+      }),
+      bus.on("gameOver", () => audioRef.current?.playEvent("gameOver")),
+    ];
+    return () => subscriptions.forEach((unsubscribe) => unsubscribe());
+  }, [bus]);
+
+  useEffect(() => {
+    if (toasts.length === 0) return;
+    const timer = window.setTimeout(() => setToasts((prev) => prev.slice(1)), TOAST_MS);
+    return () => window.clearTimeout(timer);
+  }, [toasts]);
 
-    active.steps -= 1;
-    if (active.steps > 0) {
-      stepTimeoutRef.current = window.setTimeout(runStep, MOVE_STEP_MS);
+  const finishMove = (active: ActiveMove) => {
+    if (active.source === "replay") {
+      setTiles(active.next.tiles);
+      setScore(active.next.score);
+      setActiveMove(null);
+      setPlayback((prev) => prev && { ...prev, index: prev.index + 1 });
       return;
     }
 
-    stepTimeoutRef.current = window.setTimeout(() => {
-      const mergedValues = active.finalTiles
-        .filter((tile) => tile.merged)
-        .map((tile) => tile.value);
-
-      if (mergedValues.length > 0) {
-        const newValues = mergedValues.filter((value) => !seenMergesRef.current.has(value));
-        if (newValues.length > 0) {
-          const highlight = Math.max(...newValues);
-          newValues.forEach((value) => seenMergesRef.current.add(value));
-          setPopupValue(highlight);
-          if (popupTimeoutRef.current) window.clearTimeout(popupTimeoutRef.current);
-          popupTimeoutRef.current = window.setTimeout(() => setPopupValue(null), 1050);
-        }
-        if (soundEnabled && newValues.length > 0) {
-          if (!audioRef.current) {
-            audioRef.current = new Audio("/Voicy_Bruh.mp3");
-          }
-          const audio = audioRef.current;
-          audio.currentTime = 0;
-          audio.volume = 1;
-          audio.play().catch(() => {});
-        }
-        if (cheatEnabled && mergedValues.includes(2048)) {
-          if (rickrollTimeoutRef.current) window.clearTimeout(rickrollTimeoutRef.current);
-          if (isTouchDevice) {
-            setRickrollVisible(true);
-          } else {
-            rickrollTimeoutRef.current = window.setTimeout(() => setRickrollVisible(true), 1000);
-          }
-        }
-      }
+    const mergedValues = active.events.flatMap((event) =>
+      event.type === "merge" ? [event.value] : []
+    );
+    const newMerges = Array.from(
+      new Set(mergedValues.filter((value) => !seenMergesRef.current.has(value)))
+    );
+    const [spawned = null] = active.events.flatMap((event) =>
+      event.type === "spawn" ? [event.tile] : []
+    );
+
+    active.events.forEach((event) => {
+      if (event.type !== "merge") return;
+      const { value, row, col } = event;
+      bus.emit("merge", { value, row, col, firstTime: newMerges.includes(value) });
+    });
+    if (spawned) bus.emit("spawn", { tile: spawned });
+    const previousMax = active.plan.from.reduce((value, tile) => Math.max(value, tile.value), 0);
+    const mergedMax = Math.max(0, ...mergedValues);
+    if (mergedMax > previousMax) {
+      bus.emit("newMaxTile", { value: mergedMax, previous: previousMax });
+    }
+    bus.emit("move", {
+      direction: active.plan.direction,
+      score: active.next.score,
+      scoreDelta: active.plan.score,
+      moves: moveCount + 1,
+      tiles: active.next.tiles,
+      size: active.next.size,
+      mergedValues,
+      newValues: newMerges,
+      events: active.events,
+    });
 
-      const withTile = addRandomTile(active.finalTiles, createId);
-      setTiles(withTile);
-      setScore((prev) => prev + active.score);
-      setIsAnimating(false);
-      moveRef.current = null;
-    }, MOVE_STEP_MS);
+    const entry: HistoryEntry = {
+      direction: active.plan.direction,
+      before: active.plan.from,
+      after: active.next.tiles,
+      finalTiles: active.plan.finalTiles,
+      spawned,
+      scoreDelta: active.plan.score,
+      newMerges,
+      rngBefore: active.rngBefore,
+      rngAfter: active.rngAfter,
+    };
+    setHistory((prev) => ({
+      past: [...prev.past, entry].slice(-HISTORY_LIMIT),
+      future: [],
+    }));
+    setReplay((prev) => recordMove(prev, entry.direction, spawned));
+    setMoveCount((prev) => prev + 1);
+    setTiles(active.next.tiles);
+    setScore(active.next.score);
+    setActiveMove(null);
   };
 
   const performMove = useCallback(
     (direction: Direction) => {
-      if (gameOver || isAnimating) return;
-      const { plan, moved } = planMove(tiles, direction, createId);
-      if (!moved || !plan) return;
-
-      moveRef.current = plan;
-      setIsAnimating(true);
-      setTiles((prev) =>
-        prev.map((tile) => {
-          const target = plan.targets.get(tile.id);
-          const moving = target ? tile.row !== target.row || tile.col !== target.col : false;
-          return { ...tile, moving };
-        })
+      if (gameOver || isAnimating || playback || showWin) return false;
+      const rngBefore = rngRef.current.state;
+      const { state: next, events, plan } = applyMove(
+        { tiles, score, size: boardSize, nextId: idRef.current },
+        direction,
+        rngRef.current,
+        rules.afterMove,
+        specialTiles ? SPECIAL_TILE_RATES : undefined
       );
-      if (stepTimeoutRef.current) window.clearTimeout(stepTimeoutRef.current);
-      stepTimeoutRef.current = window.setTimeout(runStep, 0);
+      if (!plan) return false;
+      const fast = fastMode && moveQueueRef.current.length >= FAST_QUEUE_DEPTH;
+
+      idRef.current = next.nextId;
+      setActiveMove({
+        plan,
+        next,
+        events,
+        rngBefore,
+        rngAfter: rngRef.current.state,
+        source: "player",
+        fast,
+      });
+      return true;
+    },
+    [
+      boardSize,
+      fastMode,
+      gameOver,
+      isAnimating,
+      playback,
+      rules,
+      score,
+      showWin,
+      specialTiles,
+      tiles,
+    ]
+  );
+
+  const canUndo =
+    !isAnimating &&
+    !playback &&
+    history.past.length > 0 &&
+    (!undoBudgetEnabled || undosLeft > 0);
+  const canRedo = !isAnimating && !playback && history.future.length > 0;
+
+  const handleUndo = useCallback(() => {
+    if (!canUndo) return;
+    moveQueueRef.current = [];
+    undoUsedRef.current = true;
+    chainMergesRef.current = 0;
+    const entry = history.past[history.past.length - 1];
+    setHistory({
+      past: history.past.slice(0, -1),
+      future: [...history.future, entry],
+    });
+    setTiles(settleTiles(entry.before));
+    setScore((prev) => prev - entry.scoreDelta);
+    entry.newMerges.forEach((value) => seenMergesRef.current.delete(value));
+    rngRef.current = { state: entry.rngBefore };
+    setReplay(dropLastMove);
+    setMoveCount((prev) => prev - 1);
+    setGameOver(false);
+    setPopupValue(null);
+    if (popupTimeoutRef.current) window.clearTimeout(popupTimeoutRef.current);
+    if (undoBudgetEnabled) setUndosLeft((prev) => prev - 1);
+    setAnnouncement(`Undid move ${entry.direction}. Score ${score - entry.scoreDelta}.`);
+  }, [canUndo, history, score, undoBudgetEnabled]);
+
+  const handleRedo = useCallback(() => {
+    if (!canRedo) return;
+    moveQueueRef.current = [];
+    const entry = history.future[history.future.length - 1];
+    setHistory({
+      past: [...history.past, entry].slice(-HISTORY_LIMIT),
+      future: history.future.slice(0, -1),
+    });
+    setTiles(entry.after);
+    setScore((prev) => prev + entry.scoreDelta);
+    entry.newMerges.forEach((value) => seenMergesRef.current.add(value));
+    rngRef.current = { state: entry.rngAfter };
+    setReplay((prev) => recordMove(prev, entry.direction, entry.spawned));
+    setMoveCount((prev) => prev + 1);
+    setAnnouncement(`Redid move ${entry.direction}. Score ${score + entry.scoreDelta}.`);
+  }, [canRedo, history, score]);
+
+  const requestSolver = useCallback(
+    (purpose: SolverPurpose) => {
+      const worker = solverRef.current;
+      if (!worker) return;
+      const request: SolverRequest = {
+        id: solverRequestRef.current.id + 1,
+        tiles: settleTiles(tiles),
+        size: boardSize,
+      };
+      solverRequestRef.current = { id: request.id, purpose, boardKey };
+      solverPendingRef.current = true;
+      setAssisted(true);
+      worker.postMessage(request);
+    },
+    [boardKey, boardSize, tiles]
+  );
+
+  useEffect(() => {
+    if (!autoplay) return;
+    if (gameOver || playback) {
+      setAutoplay(false);
+      return;
+    }
+    if (isAnimating || solverPendingRef.current) return;
+    const timer = window.setTimeout(() => requestSolver("autoplay"), autoplayDelay);
+    return () => window.clearTimeout(timer);
+  }, [autoplay, autoplayDelay, gameOver, isAnimating, playback, requestSolver, solverResult]);
+
+  useEffect(() => {
+    if (!autoplay || solverResult?.purpose !== "autoplay") return;
+    if (solverResult.boardKey !== boardKey) return;
+    if (!solverResult.direction) {
+      setAutoplay(false);
+      return;
+    }
+    performMove(solverResult.direction);
+  }, [autoplay, boardKey, performMove, solverResult]);
+
+  const toggleUndoBudget = () => {
+    if (!started) setUndoBudgetEnabled((prev) => !prev);
+  };
+
+  useEffect(() => {
+    const handleHistoryKey = (event: KeyboardEvent) => {
+      if (!event.ctrlKey && !event.metaKey) return;
+      if (isEditableTarget(event.target)) return;
+      const key = event.key.toLowerCase();
+      const redo = key === "y" || (key === "z" && event.shiftKey);
+      if (key !== "z" && !redo) return;
+      event.preventDefault();
+      if (redo) {
+        handleRedo();
+      } else {
+        handleUndo();
+      }
+    };
+
+    window.addEventListener("keydown", handleHistoryKey);
+    return () => window.removeEventListener("keydown", handleHistoryKey);
+  }, [handleRedo, handleUndo]);
+
+  const queueMove = useCallback(
+    (direction: Direction) => {
+      if (!isAnimating) {
+        performMove(direction);
+      } else if (moveQueueRef.current.length < MOVE_QUEUE_LIMIT) {
+        moveQueueRef.current.push(direction);
+      }
     },
-    [createId, gameOver, isAnimating, tiles]
+    [isAnimating, performMove]
   );
 
+  useEffect(() => {
+    if (isAnimating) return;
+    while (moveQueueRef.current.length > 0) {
+      const direction = moveQueueRef.current.shift();
+      if (direction && performMove(direction)) break;
+    }
+  }, [isAnimating, performMove]);
+
   useEffect(() => {
     const handleKey = (event: KeyboardEvent) => {
-      const map: Record<string, Direction> = {
-        ArrowLeft: "left",
-        ArrowRight: "right",
-        ArrowUp: "up",
-        ArrowDown: "down",
-      };
-      const direction = map[event.key];
+      if (event.ctrlKey || event.metaKey || event.altKey || isEditableTarget(event.target)) return;
+      const key = event.key.length === 1 ? event.key.toLowerCase() : event.key;
+      const direction = KEY_DIRECTIONS[key];
       if (!direction) return;
       event.preventDefault();
-      performMove(direction);
+      queueMove(direction);
     };
 
     window.addEventListener("keydown", handleKey);
     return () => window.removeEventListener("keydown", handleKey);
-  }, [performMove]);
-
-  const handleTouchStart = (event: TouchEvent<HTMLDivElement>) => {
-    if (!isTouchDevice || isAnimating) return;
-    const touch = event.touches[0];
-    touchStartRef.current = { x: touch.clientX, y: touch.clientY };
-  };
-
-  const handleTouchEnd = (event: TouchEvent<HTMLDivElement>) => {
-    if (!isTouchDevice || isAnimating) return;
-    const start = touchStartRef.current;
-    if (!start) return;
-    const touch = event.changedTouches[0];
-    const dx = touch.clientX - start.x;
-    const dy = touch.clientY - start.y;
-    const threshold = 24;
-    if (Math.abs(dx) < threshold && Math.abs(dy) < threshold) return;
-
-    if (Math.abs(dx) > Math.abs(dy)) {
-      performMove(dx > 0 ? "right" : "left");
+  }, [queueMove]);
+
+  useGamepadDirections(queueMove);
+
+  const handleEnableSound = useCallback(() => {
+    audioRef.current?.unlock();
+    setSound((prev) => ({ ...prev, muted: false }));
+  }, []);
+
+  const toggleMute = () => {
+    if (sound.muted) {
+      handleEnableSound();
     } else {
-      performMove(dy > 0 ? "down" : "up");
+      audioRef.current?.stopLoop(RICKROLL_SOUND);
+      setSound({ ...sound, muted: true });
     }
-    touchStartRef.current = null;
   };
 
-  const handleEnableSound = useCallback(() => {
-    setSoundEnabled(true);
-    if (!audioRef.current) {
-      audioRef.current = new Audio("/Voicy_Bruh.mp3");
-    }
-    audioRef.current
-      .play()
-      .then(() => {
-        if (!audioRef.current) return;
-        audioRef.current.pause();
-        audioRef.current.currentTime = 0;
-      })
+  const finishGame = () => {
+    setAnnouncement(`Game over. Final score ${score}.`);
+    if (playback) return;
+    bus.emit("gameOver", {
+      score,
+      maxTile,
+      moves: moveCount,
+      mode,
+      cheated: cheatEnabled,
+      assisted,
+    });
+    saveGameRecord({
+      id: `${startedAtRef.current}-${seed}`,
+      seed,
+      size: boardSize,
+      score,
+      maxTile,
+      moves: moveCount,
+      startedAt: startedAtRef.current,
+      endedAt: Date.now(),
+      cheated: cheatEnabled,
+      assisted,
+      mode,
+    }).catch(() => {});
+    if (rules.timeLimitMs === undefined || !clockToken || isStoppedClock(clockToken)) return;
+    stopClock(clockToken, seed, replay.moves.map((move) => move.direction))
+      .then(({ token }) => setClockToken((current) => (current === clockToken ? token : current)))
       .catch(() => {});
-    if (!rickrollAudioRef.current) {
-      rickrollAudioRef.current = new Audio("/Voicy_Rickroll.mp3");
+  };
+  const finishGameRef = useRef(finishGame);
+  finishGameRef.current = finishGame;
+
+  useEffect(() => {
+    if (gameOver) finishGameRef.current();
+  }, [gameOver]);
+
+  const setupBoard = useCallback(
+    (spawns: Spawn[], size = boardSize, startScore = 0) => {
+      if (playback) return;
+      moveQueueRef.current = [];
+      const game = createGameFromSpawns(spawns, size, startScore, idRef.current);
+      idRef.current = game.nextId;
+      startedAtRef.current = Date.now();
+      undoUsedRef.current = false;
+      seenMergesRef.current = new Set();
+      chainMergesRef.current = 0;
+      if (popupTimeoutRef.current) window.clearTimeout(popupTimeoutRef.current);
+      setPopupValue(null);
+      setMoveCount(0);
+      setElapsedMs(0);
+      setClockToken(null);
+      setBoardSize(size);
+      setTiles(game.tiles);
+      setReplay(createReplay(seed, size, game.tiles, startScore, mode));
+      setScore(startScore);
+      setGameOver(isGameOver(game));
+      setKeepGoing(false);
+      setActiveMove(null);
+      setCheatEnabled(true);
+      setPendingDoubles(0);
+      setHistory(emptyHistory());
+      setUndosLeft(UNDO_BUDGET);
+    },
+    [boardSize, mode, playback, seed]
+  );
+
+  const triggerCheat = useCallback(() => setupBoard(CHEAT_BOARD), [setupBoard]);
+
+  const openEditor = () => {
+    setEditor({
+      size: boardSize,
+      tiles: tiles.map(({ row, col, value, kind }) =>
+        kind ? { row, col, value, kind } : { row, col, value }
+      ),
+      score,
+      brush: "2",
+      text: "",
+      error: "",
+    });
+  };
+
+  const paintEditorCell = (row: number, col: number) => {
+    if (!editor) return;
+    const current = editor.tiles.find((tile) => tile.row === row && tile.col === col);
+    const rest = editor.tiles.filter((tile) => tile !== current);
+    const spawn =
+      cellToken(current) === editor.brush ? null : parseCellToken(editor.brush, row, col);
+    setEditor({ ...editor, tiles: spawn ? [...rest, spawn] : rest });
+  };
+
+  const resizeEditor = (size: number) => {
+    if (!editor) return;
+    const tiles = editor.tiles.filter((tile) => tile.row < size && tile.col < size);
+    setEditor({ ...editor, size, tiles });
+  };
+
+  const importEditorBoard = () => {
+    if (!editor) return;
+    const board = parseBoard(editor.text, editor.size);
+    if (!board) {
+      setEditor({ ...editor, error: "Couldn’t read that board." });
+      return;
     }
-    rickrollAudioRef.current.load();
-  }, []);
+    setEditor({ ...editor, size: board.size, tiles: board.tiles, error: "" });
+  };
 
-  const triggerCheat = useCallback(() => {
-    setTiles([
-      { id: createId(), value: 1024, row: 0, col: 0, isNew: true },
-      { id: createId(), value: 1024, row: 0, col: 1, isNew: true },
-    ]);
-    setScore(0);
-    setGameOver(false);
-    setIsAnimating(false);
-    moveRef.current = null;
-    setCheatEnabled(true);
-  }, [createId]);
+  const playEditorBoard = () => {
+    if (!editor) return;
+    setupBoard(editor.tiles, editor.size, editor.score);
+    setEditor(null);
+  };
+
+  const runCheatAction = useCallback(
+    (action: CheatAction, delay = 0) => bus.emit("cheat", { action, delay }),
+    [bus]
+  );
+
+  useEffect(
+    () =>
+      bus.on("cheat", ({ action, delay }) => {
+        if (action === "board1024") {
+          triggerCheat();
+        } else if (action === "doubleScore") {
+          if (playback) return;
+          setPendingDoubles((prev) => prev + 1);
+          setCheatEnabled(true);
+        } else {
+          if (rickrollTimeoutRef.current) window.clearTimeout(rickrollTimeoutRef.current);
+          rickrollTimeoutRef.current = window.setTimeout(() => setRickrollVisible(true), delay);
+        }
+      }),
+    [bus, playback, triggerCheat]
+  );
 
   useEffect(() => {
-    const cheat = "1024";
-    const handleCheat = (event: KeyboardEvent) => {
-      if (event.key.length !== 1) return;
-      const next = (cheatBuffer + event.key).slice(-cheat.length);
-      setCheatBuffer(next);
-      if (next !== cheat) return;
+    if (isAnimating || pendingDoubles === 0) return;
+    setScore((prev) => prev * 2 ** pendingDoubles);
+    setPendingDoubles(0);
+  }, [isAnimating, pendingDoubles]);
+
+  useEffect(() => {
+    const subscriptions = [
+      bus.on("move", ({ mergedValues }) => {
+        if (mergedValues.length === 0) return;
+        matchRewards({ mergedValues, cheated: cheatEnabled }, cheatSettings).forEach((reward) =>
+          runCheatAction(reward.action, REWARD_DELAY_MS)
+        );
+      }),
+      bus.on("move", ({ mergedValues, tiles, size, moves }) => {
+        chainMergesRef.current =
+          mergedValues.length > 0 ? chainMergesRef.current + mergedValues.length : 0;
+        if (cheatEnabled || assisted) return;
+        const unlocked = checkAchievements(
+          {
+            mergedValues,
+            chainMerges: chainMergesRef.current,
+            tiles,
+            size,
+            moves,
+            undoUsed: undoUsedRef.current,
+          },
+          achievementsRef.current
+        );
+        if (unlocked.length === 0) return;
+        const now = Date.now();
+        unlocked.forEach((achievement) => {
+          achievementsRef.current[achievement.id] = now;
+        });
+        saveAchievements(achievementsRef.current);
+        setToasts((prev) => [...prev, ...unlocked]);
+      }),
+      bus.on("move", ({ mergedValues, newValues }) => {
+        if (newValues.includes(targetTile)) {
+          audioRef.current?.playEvent("win");
+        } else if (newValues.length > 0) {
+          audioRef.current?.playEvent("newMax", resolveTile(theme, Math.max(...newValues)).sound);
+        } else if (mergedValues.length > 0) {
+          audioRef.current?.playEvent("merge", resolveTile(theme, Math.max(...mergedValues)).sound);
+        } else {
+          audioRef.current?.playEvent("move");
+        }
+      }),
+    ];
+    return () => subscriptions.forEach((unsubscribe) => unsubscribe());
+  }, [assisted, bus, cheatEnabled, cheatSettings, runCheatAction, targetTile, theme]);
 
-      triggerCheat();
-      setCheatBuffer("");
+  useEffect(() => {
+    const handleCheat = (event: KeyboardEvent) => {
+      if (event.key.length !== 1 || event.ctrlKey || event.metaKey) return;
+      if (isEditableTarget(event.target)) return;
+      const next = (cheatBuffer + event.key.toLowerCase()).slice(-CHEAT_BUFFER_LENGTH);
+      const code = matchCheat(next, cheatSettings);
+      setCheatBuffer(code ? "" : next);
+      if (code) runCheatAction(code.action);
     };
 
     window.addEventListener("keydown", handleCheat);
     return () => window.removeEventListener("keydown", handleCheat);
-  }, [cheatBuffer, triggerCheat]);
+  }, [cheatBuffer, cheatSettings, runCheatAction]);
 
-  const handleRestart = () => {
-    let next = addRandomTile([], createId);
-    next = addRandomTile(next, createId);
-    setTiles(next);
+  const updateCheatSettings = (next: CheatSettings) => {
+    setCheatSettings(next);
+    saveCheatSettings(next);
+  };
+
+  const toggleCheat = (id: string, enabled: boolean) => {
+    const disabled = cheatSettings.disabled.filter((item) => item !== id);
+    updateCheatSettings({ ...cheatSettings, disabled: enabled ? disabled : [...disabled, id] });
+  };
+
+  const handleRestart = (size = boardSize, nextSeed = createSeed(), nextMode = mode) => {
+    startedAtRef.current = Date.now();
+    setMoveCount(0);
+    moveQueueRef.current = [];
+    undoUsedRef.current = false;
+    setClockToken(null);
+    setMode(nextMode);
+    setElapsedMs(0);
+    setKeepGoing(false);
+    setAnnouncement("New game started.");
+    rngRef.current = createRng(nextSeed);
+    setSeed(nextSeed);
+    const game = createGame(size, rngRef.current, idRef.current);
+    idRef.current = game.nextId;
+    bus.emit("restart", { seed: nextSeed, size, mode: nextMode });
+    setTiles(game.tiles);
+    setReplay(createReplay(nextSeed, size, game.tiles, 0, nextMode));
+    if (playback) {
+      liveGameRef.current = null;
+      setPlayback(null);
+      clearReplayFragment();
+    }
     setScore(0);
     setGameOver(false);
-    setIsAnimating(false);
-    moveRef.current = null;
-    if (stepTimeoutRef.current) window.clearTimeout(stepTimeoutRef.current);
+    setActiveMove(null);
     if (popupTimeoutRef.current) window.clearTimeout(popupTimeoutRef.current);
     if (rickrollTimeoutRef.current) window.clearTimeout(rickrollTimeoutRef.current);
     setPopupValue(null);
     setRickrollVisible(false);
     setRickrollImageVisible(false);
     setCheatEnabled(false);
-    seenMergesRef.current = new Set();
-    if (rickrollAudioRef.current) {
-      rickrollAudioRef.current.pause();
-      rickrollAudioRef.current.currentTime = 0;
+    setPendingDoubles(0);
+    setAssisted(false);
+    setHistory(emptyHistory());
+    setUndosLeft(UNDO_BUDGET);
+    audioRef.current?.stopLoop(RICKROLL_SOUND);
+    if (rickrollImageTimeoutRef.current) {
+      window.clearTimeout(rickrollImageTimeoutRef.current);
     }
+    audioRef.current?.unlock();
+  };
+
+  const openSettings = () => {
+    setDraftSize(boardSize);
+    setDraftTarget(targetTile);
+    setDraftMode(mode);
+    setDraftSpecialTiles(specialTiles);
+    setDraftSeed("");
+    setSettingsOpen(true);
+  };
+
+  const handleNewGame = (size = boardSize, requestedSeed = "", nextMode = mode) => {
+    if (requestedSeed || MODE_RULES[nextMode].timeLimitMs === undefined) {
+      handleRestart(size, requestedSeed || createSeed(), nextMode);
+      return;
+    }
+    startClock()
+      .then(({ seed: dealt, token }) => {
+        handleRestart(size, dealt, nextMode);
+        setClockToken(token);
+      })
+      .catch(() => handleRestart(size, createSeed(), nextMode));
+  };
+
+  const applySettings = () => {
+    setBoardSize(draftSize);
+    setTargetTile(draftTarget);
+    setSpecialTiles(draftSpecialTiles);
+    setSettingsOpen(false);
+    handleNewGame(draftSize, draftSeed.trim(), draftMode);
+  };
+
+  const handleDailyChallenge = () => {
+    setBoardSize(DEFAULT_SIZE);
+    setTargetTile(DEFAULT_TARGET);
+    setSpecialTiles(false);
+    setSettingsOpen(false);
+    handleRestart(DEFAULT_SIZE, dailySeed(), "classic");
+  };
+
+  const toggleFastMode = () => {
+    setFastMode(!fastMode);
+    saveFastMode(!fastMode);
+  };
+
+  const handleMoveDurationChange = (duration: number) => {
+    setMoveDuration(duration);
+    saveMoveDuration(duration);
+  };
+
+  const handleGestureChange = (options: Partial<GestureOptions>) => {
+    const next = { ...gesture, ...options };
+    setGesture(next);
+    saveGestureOptions(next);
+  };
+
+  const handleThemeChange = (id: string) => {
+    setThemeId(id);
+    saveThemeId(id);
+  };
+
+  const handleThemeFiles = async (files: File[]) => {
+    const loaded = await loadThemeFiles(files).catch(() => null);
+    if (!loaded) {
+      window.alert("Could not load the theme. Pick a manifest .json file and its images.");
+      return;
+    }
+    setCustomTheme(loaded);
+    handleThemeChange(CUSTOM_THEME_ID);
+    saveCustomTheme(loaded).catch(() =>
+      window.alert("The theme is active, but it couldn't be saved and will be gone after a reload.")
+    );
+  };
+
+  const closeRickroll = () => {
+    setRickrollVisible(false);
+    setRickrollImageVisible(false);
     if (rickrollImageTimeoutRef.current) {
       window.clearTimeout(rickrollImageTimeoutRef.current);
     }
-    if (soundEnabled) {
-      if (!audioRef.current) {
-        audioRef.current = new Audio("/Voicy_Bruh.mp3");
-      }
-      audioRef.current
-        .play()
-        .then(() => {
-          if (!audioRef.current) return;
-          audioRef.current.pause();
-          audioRef.current.currentTime = 0;
+    audioRef.current?.stopLoop(RICKROLL_SOUND);
+  };
+
+  const handleCopySeedLink = () => {
+    navigator.clipboard?.writeText(window.location.href).catch(() => {});
+  };
+
+  const startPlayback = (next: Replay) => {
+    if (isAnimating) return;
+    moveQueueRef.current = [];
+    const states = replayStates(next);
+    if (!playback) liveGameRef.current = { tiles, score };
+    setPlayback({ replay: next, states, index: 0, playing: false, speed: 1 });
+    setTiles(settleTiles(states[0].tiles));
+    setScore(states[0].score);
+    setPopupValue(null);
+  };
+
+  const startPlaybackRef = useRef(startPlayback);
+  startPlaybackRef.current = startPlayback;
+
+  useEffect(() => {
+    if (!hydrated) return;
+    const shared = decodeReplayFragment(window.location.hash);
+    if (shared) startPlaybackRef.current(shared);
+  }, [hydrated]);
+
+  const exitPlayback = () => {
+    if (!playback) return;
+    setActiveMove(null);
+    const live = liveGameRef.current;
+    if (live) {
+      setTiles(settleTiles(live.tiles));
+      setScore(live.score);
+    }
+    liveGameRef.current = null;
+    setPlayback(null);
+    clearReplayFragment();
+  };
+
+  const stepPlaybackForward = useCallback(() => {
+    if (!playback || isAnimating) return;
+    const move = playback.replay.moves[playback.index];
+    const current = playback.states[playback.index];
+    if (!move || !current) return;
+    const { state: next, events, plan } = applyRecordedMove(
+      current,
+      move.direction,
+      move.spawn,
+      MODE_RULES[playback.replay.mode].afterMove
+    );
+    if (!plan) return;
+
+    setActiveMove({
+      plan,
+      next,
+      events,
+      rngBefore: rngRef.current.state,
+      rngAfter: rngRef.current.state,
+      source: "replay",
+      fast: false,
+    });
+  }, [isAnimating, playback]);
+
+  const stepPlaybackBack = () => {
+    if (!playback || isAnimating || playback.index === 0) return;
+    const previous = playback.states[playback.index - 1];
+    setTiles(settleTiles(previous.tiles));
+    setScore(previous.score);
+    setPlayback({ ...playback, index: playback.index - 1, playing: false });
+  };
+
+  useEffect(() => {
+    if (!playback?.playing || isAnimating) return;
+    if (playback.index >= playback.states.length - 1) {
+      setPlayback({ ...playback, playing: false });
+      return;
+    }
+    const timer = window.setTimeout(stepPlaybackForward, REPLAY_DELAY_MS / playback.speed);
+    return () => window.clearTimeout(timer);
+  }, [isAnimating, playback, stepPlaybackForward]);
+
+  const handleExportReplay = () => {
+    downloadFile(`2048-replay-${replay.seed || "game"}.json`, serializeReplay(replay));
+  };
+
+  const refreshLeaderboard = useCallback(
+    (name: string) => {
+      fetchLeaderboard(mode)
+        .then(({ entries }) => {
+          setLeaderboard(entries);
+          setLeaderboardError("");
         })
-        .catch(() => {});
+        .catch(() => setLeaderboardError("Leaderboard unavailable."));
+      if (!name) return;
+      fetchPlayerScores(name)
+        .then(({ entries }) => setPlayerRanks(entries))
+        .catch(() => setPlayerRanks([]));
+    },
+    [mode]
+  );
+
+  useEffect(() => {
+    if (hydrated) refreshLeaderboard(normalizeName(loadPlayerName()));
+  }, [hydrated, refreshLeaderboard]);
+
+  useEffect(() => {
+    if (gameOver) return;
+    setSubmitStatus({ state: "idle", message: "" });
+    setShareCard(null);
+    setShareStatus("");
+  }, [gameOver]);
+
+  useEffect(() => {
+    if (!shareCard) return;
+    return () => URL.revokeObjectURL(shareCard.url);
+  }, [shareCard]);
+
+  const gameResult = (): GameResult => ({
+    tiles: settleTiles(tiles),
+    size: boardSize,
+    score,
+    maxTile,
+    moves: moveCount,
+    date: new Date(),
+  });
+
+  const handleRenderCard = async () => {
+    setShareStatus("Rendering card…");
+    try {
+      const blob = await renderResultCard(gameResult(), theme);
+      setShareCard({ blob, url: URL.createObjectURL(blob) });
+      setShareStatus("");
+    } catch {
+      setShareStatus("Couldn’t render the card.");
+    }
+  };
+
+  const handleCopyCard = () => {
+    if (!shareCard) return;
+    copyImage(shareCard.blob)
+      .then(() => setShareStatus("Image copied."))
+      .catch(() => setShareStatus("Copying images isn’t supported here."));
+  };
+
+  const handleShareCard = () => {
+    if (!shareCard) return;
+    shareResult(shareCard.blob, resultText(gameResult()))
+      .then((shared) => {
+        if (!shared) setShareStatus("Sharing isn’t supported here.");
+      })
+      .catch(() => {});
+  };
+
+  const handleCopyResultText = () => {
+    navigator.clipboard
+      ?.writeText(resultText(gameResult()))
+      .then(() => setShareStatus("Result copied."))
+      .catch(() => setShareStatus("Couldn’t copy the result."));
+  };
+
+  const handleSubmitScore = async () => {
+    const name = normalizeName(playerName);
+    if (!name || submitStatus.state === "sending") return;
+    savePlayerName(name);
+    setSubmitStatus({ state: "sending", message: "Verifying your game…" });
+    try {
+      const { entry } = await submitScore({
+        name,
+        seed,
+        size: boardSize,
+        mode,
+        specialTiles,
+        moves: replay.moves.map((move) => move.direction),
+        score,
+        maxTile,
+        clockToken: clockToken ?? undefined,
+      });
+      const message = `Verified! You’re #${entry.rank} in ${rules.name}.`;
+      setSubmitStatus({ state: "done", message });
+      refreshLeaderboard(name);
+    } catch (error) {
+      const message = error instanceof Error ? error.message : "Submission failed.";
+      setSubmitStatus({ state: "error", message });
     }
   };
 
+  const handleCopyReplayLink = () => {
+    const url = new URL(window.location.href);
+    url.hash = encodeReplayFragment(replay);
+    navigator.clipboard?.writeText(url.toString()).catch(() => {});
+  };
+
+  const handleImportReplay = async (file: File) => {
+    try {
+      const imported = parseReplay(JSON.parse(await file.text()));
+      if (imported) startPlayback(imported);
+    } catch {}
+  };
+
+  const popupVisual = popupValue !== null ? resolveTile(theme, popupValue) : null;
+
   return (
     <main className="page">
       <div className="panel">
         <div>
           <h1>2048</h1>
-          <p className="muted">Use arrow keys. Combine tiles.</p>
+          <p className="muted">
+            Use arrow keys. Combine tiles. New here? <Link href="/tutorial">Try the tutorial</Link>.
+          </p>
         </div>
-        <div className="score">
-          <span className="label">Score</span>
-          <span className="value">{score}</span>
+        <div className="scores">
+          <div className="score">
+            <span className="label">Score</span>
+            <span className="value">{score}</span>
+          </div>
+          <div className="score">
+            <span className="label">{rules.resultLabel}</span>
+            <span className="value">{bestScores[mode]}</span>
+          </div>
         </div>
         <div className="progress">
           <span className="label">Highest Tile</span>
           <div className="progress-value">
             <div
               className="progress-image"
-              style={{
-                backgroundImage: TILE_IMAGES[maxTile] ? `url(${TILE_IMAGES[maxTile]})` : "none",
-              }}
+              style={maxTile ? tileVisualStyle(resolveTile(theme, maxTile)) : undefined}
             />
             <span>{maxTile || 0}</span>
           </div>
+          <span className="muted">
+            {won ? `Target ${targetTile} reached!` : `Target: ${targetTile}`}
+          </span>
+        </div>
+        <div className="mode-status">
+          <span className="label">{rules.name}</span>
+          {rules.timeLimitMs !== undefined && (
+            <span className="value">{formatClock(rules.timeLimitMs - elapsedMs)}</span>
+          )}
+          {rules.moveLimit !== undefined && (
+            <span className="value">{Math.max(rules.moveLimit - moveCount, 0)} moves left</span>
+          )}
+          <span className="muted">{rules.description}</span>
         </div>
-        <button className="reset" onClick={handleRestart} type="button">
+        <button className="reset" onClick={() => handleNewGame()} type="button">
           New Game
         </button>
-        <button className="reset reset--cheat" onClick={triggerCheat} type="button">
+        <div className="actions">
+          <label className="setting">
+            <span className="label">Theme</span>
+            <select value={theme.id} onChange={(event) => handleThemeChange(event.target.value)}>
+              {themes.map((item) => (
+                <option key={item.id} value={item.id}>
+                  {item.name}
+                </option>
+              ))}
+            </select>
+          </label>
+          <button className="reset" onClick={() => themeInputRef.current?.click()} type="button">
+            Load Custom Theme
+          </button>
+          <input
+            ref={themeInputRef}
+            type="file"
+            accept="application/json,.json,image/*,audio/*"
+            multiple
+            hidden
+            onChange={(event) => {
+              const files = Array.from(event.target.files ?? []);
+              if (files.length) handleThemeFiles(files);
+              event.target.value = "";
+            }}
+          />
+        </div>
+        <div className="actions">
+          <label className="setting">
+            <span className="label">Swipe Distance</span>
+            <select
+              value={gesture.deadZone}
+              onChange={(event) => handleGestureChange({ deadZone: Number(event.target.value) })}
+            >
+              {DEAD_ZONE_OPTIONS.map((value) => (
+                <option key={value} value={value}>
+                  {value}px
+                </option>
+              ))}
+            </select>
+          </label>
+          <label className="setting">
+            <span className="label">Flick Speed</span>
+            <select
+              value={gesture.flickVelocity}
+              onChange={(event) =>
+                handleGestureChange({ flickVelocity: Number(event.target.value) })
+              }
+            >
+              {FLICK_OPTIONS.map((value) => (
+                <option key={value} value={value}>
+                  {value} px/ms
+                </option>
+              ))}
+            </select>
+          </label>
+          <label className="setting">
+            <span className="label">Slide Duration</span>
+            <select
+              value={moveDuration}
+              onChange={(event) => handleMoveDurationChange(Number(event.target.value))}
+            >
+              {MOVE_DURATION_OPTIONS.map((value) => (
+                <option key={value} value={value}>
+                  {value}ms
+                </option>
+              ))}
+            </select>
+          </label>
+        </div>
+        <div className="seed">
+          <span className="label">Seed</span>
+          <code>{seed}</code>
+          <button className="reset" onClick={handleCopySeedLink} type="button">
+            Copy Link
+          </button>
+        </div>
+        <div className="actions">
+          <button className="reset" onClick={openSettings} type="button">
+            Settings
+          </button>
+          <Link className="reset" href="/stats">
+            Stats
+          </Link>
+          <Link className="reset" href="/versus">
+            Versus
+          </Link>
+          <Link className="reset" href="/achievements">
+            Achievements
+          </Link>
+          <Link className="reset" href="/tutorial">
+            Tutorial
+          </Link>
+          <button className="reset" onClick={handleDailyChallenge} type="button">
+            Daily Challenge
+          </button>
+        </div>
+        {settingsOpen && (
+          <div className="settings">
+            <label className="setting">
+              <span className="label">Board Size</span>
+              <select
+                value={draftSize}
+                onChange={(event) => setDraftSize(Number(event.target.value))}
+              >
+                {SIZE_OPTIONS.map((size) => (
+                  <option key={size} value={size}>
+                    {size}x{size}
+                  </option>
+                ))}
+              </select>
+            </label>
+            <label className="setting">
+              <span className="label">Target Tile</span>
+              <select
+                value={draftTarget}
+                onChange={(event) => setDraftTarget(Number(event.target.value))}
+              >
+                {TARGET_OPTIONS.map((target) => (
+                  <option key={target} value={target}>
+                    {target}
+                  </option>
+                ))}
+              </select>
+            </label>
+            <label className="setting">
+              <span className="label">Mode</span>
+              <select
+                value={draftMode}
+                onChange={(event) => setDraftMode(event.target.value as GameMode)}
+              >
+                {GAME_MODES.map((item) => (
+                  <option key={item} value={item}>
+                    {MODE_RULES[item].name}
+                  </option>
+                ))}
+              </select>
+            </label>
+            <label className="setting setting--inline">
+              <input
+                type="checkbox"
+                checked={draftSpecialTiles}
+                onChange={(event) => setDraftSpecialTiles(event.target.checked)}
+              />
+              <span className="label">Special tiles (stones, wildcards, bombs)</span>
+            </label>
+            <label className="setting">
+              <span className="label">Seed (optional)</span>
+              <input
+                value={draftSeed}
+                onChange={(event) => setDraftSeed(event.target.value)}
+                placeholder="random"
+              />
+            </label>
+            <div className="actions">
+              <button className="reset" onClick={applySettings} type="button">
+                Start Game
+              </button>
+              <button className="reset" onClick={() => setSettingsOpen(false)} type="button">
+                Cancel
+              </button>
+            </div>
+          </div>
+        )}
+        <div className="actions">
+          <button className="reset" onClick={handleUndo} type="button" disabled={!canUndo}>
+            Undo
+          </button>
+          <button className="reset" onClick={handleRedo} type="button" disabled={!canRedo}>
+            Redo
+          </button>
+          <button className="reset" onClick={toggleUndoBudget} type="button" disabled={started}>
+            {undoBudgetEnabled ? `Undo Budget: ${undosLeft} left` : "Unlimited Undo"}
+          </button>
+          <button className="reset" onClick={toggleFastMode} type="button" aria-pressed={fastMode}>
+            {fastMode ? "Fast Mode On" : "Fast Mode Off"}
+          </button>
+        </div>
+        {playback ? (
+          <div className="replay">
+            <span className="label">
+              Replay: move {playback.index} of {playback.states.length - 1}
+            </span>
+            <div className="actions">
+              <button
+                className="reset"
+                onClick={stepPlaybackBack}
+                type="button"
+                disabled={isAnimating || playback.index === 0}
+              >
+                Back
+              </button>
+              <button
+                className="reset"
+                onClick={() => setPlayback({ ...playback, playing: !playback.playing })}
+                type="button"
+                disabled={!playback.playing && playback.index >= playback.states.length - 1}
+              >
+                {playback.playing ? "Pause" : "Play"}
+              </button>
+              <button
+                className="reset"
+                onClick={stepPlaybackForward}
+                type="button"
+                disabled={isAnimating || playback.index >= playback.states.length - 1}
+              >
+                Forward
+              </button>
+              <select
+                aria-label="Replay speed"
+                value={playback.speed}
+                onChange={(event) =>
+                  setPlayback({ ...playback, speed: Number(event.target.value) })
+                }
+              >
+                {REPLAY_SPEEDS.map((speed) => (
+                  <option key={speed} value={speed}>
+                    {speed}x
+                  </option>
+                ))}
+              </select>
+              <button className="reset" onClick={exitPlayback} type="button">
+                Exit Replay
+              </button>
+            </div>
+          </div>
+        ) : (
+          <div className="actions">
+            <button className="reset" onClick={() => startPlayback(replay)} type="button">
+              Watch Replay
+            </button>
+            <button className="reset" onClick={handleExportReplay} type="button">
+              Export Replay
+            </button>
+            <button className="reset" onClick={handleCopyReplayLink} type="button">
+              Copy Replay Link
+            </button>
+            <button
+              className="reset"
+              onClick={() => replayInputRef.current?.click()}
+              type="button"
+            >
+              Import Replay
+            </button>
+            <input
+              ref={replayInputRef}
+              type="file"
+              accept="application/json,.json"
+              hidden
+              onChange={(event) => {
+                const file = event.target.files?.[0];
+                if (file) handleImportReplay(file);
+                event.target.value = "";
+              }}
+            />
+          </div>
+        )}
+        <div className="actions">
+          <button
+            className="reset"
+            onClick={() => requestSolver("hint")}
+            type="button"
+            disabled={isAnimating || gameOver || !!playback}
+          >
+            {hint ? `Hint: ${DIRECTION_ARROWS[hint]} ${hint}` : "Hint"}
+          </button>
+          <button
+            className="reset"
+            onClick={() => setAutoplay((prev) => !prev)}
+            type="button"
+            disabled={gameOver || !!playback}
+          >
+            {autoplay ? "Stop Autoplay" : "Autoplay"}
+          </button>
+          <select
+            aria-label="Autoplay speed"
+            value={autoplayDelay}
+            onChange={(event) => setAutoplayDelay(Number(event.target.value))}
+          >
+            {AUTOPLAY_SPEEDS.map((speed) => (
+              <option key={speed.delay} value={speed.delay}>
+                {speed.label}
+              </option>
+            ))}
+          </select>
+        </div>
+        <button
+          className="reset reset--cheat"
+          onClick={() => runCheatAction("board1024")}
+          type="button"
+          disabled={!isCheatEnabled("1024", cheatSettings)}
+        >
           Cheat 1024 (don’t press it unless you want to win normally)
         </button>
+        <details className="settings">
+          <summary className="label">Cheat Codes</summary>
+          <label className="setting setting--inline">
+            <input
+              type="checkbox"
+              checked={cheatSettings.seriousMode}
+              onChange={(event) =>
+                updateCheatSettings({ ...cheatSettings, seriousMode: event.target.checked })
+              }
+            />
+            <span>Serious mode (no cheats)</span>
+          </label>
+          {CHEAT_CODES.map((code) => (
+            <label className="setting setting--inline" key={code.id}>
+              <input
+                type="checkbox"
+                checked={!cheatSettings.disabled.includes(code.id)}
+                disabled={cheatSettings.seriousMode}
+                onChange={(event) => toggleCheat(code.id, event.target.checked)}
+              />
+              <span>
+                <code>{code.sequence}</code> {code.name}: {code.description}
+              </span>
+            </label>
+          ))}
+          {REWARD_TRIGGERS.map((trigger) => (
+            <label className="setting setting--inline" key={trigger.id}>
+              <input
+                type="checkbox"
+                checked={!cheatSettings.disabled.includes(trigger.id)}
+                disabled={cheatSettings.seriousMode}
+                onChange={(event) => toggleCheat(trigger.id, event.target.checked)}
+              />
+              <span>
+                {trigger.name}: {trigger.description}
+              </span>
+            </label>
+          ))}
+        </details>
+        {rules.ranked && (
+          <details className="settings">
+            <summary className="label">Leaderboard: {rules.name}</summary>
+            {leaderboardError ? (
+              <p className="muted">{leaderboardError}</p>
+            ) : leaderboard.length === 0 ? (
+              <p className="muted">No verified scores yet.</p>
+            ) : (
+              <ol className="leaderboard">
+                {leaderboard.map((entry) => (
+                  <li key={entry.id}>
+                    <span>
+                      #{entry.rank} {entry.name}
+                    </span>
+                    <span className="muted">
+                      {rules.result(entry)} · {entry.size}x{entry.size}
+                    </span>
+                  </li>
+                ))}
+              </ol>
+            )}
+            {playerRanks.length > 0 && (
+              <div>
+                <span className="label">Your Ranks</span>
+                <ul className="leaderboard">
+                  {playerRanks.map((entry) => (
+                    <li key={entry.id}>
+                      <span>
+                        {MODE_RULES[entry.mode].name}: #{entry.rank}
+                      </span>
+                      <span className="muted">{MODE_RULES[entry.mode].result(entry)}</span>
+                    </li>
+                  ))}
+                </ul>
+              </div>
+            )}
+          </details>
+        )}
         <button
           className="reset"
-          onClick={handleEnableSound}
+          onClick={openEditor}
           type="button"
-          disabled={soundEnabled}
+          disabled={!!editor || !!playback || isAnimating}
         >
-          {soundEnabled ? "Sound Enabled" : "Enable Sound (recommended)"}
+          Board Editor
         </button>
-      </div>
-
-      <div
-        className="board"
-        role="grid"
-        aria-label="2048 board"
-        ref={boardRef}
-        onTouchStart={handleTouchStart}
-        onTouchEnd={handleTouchEnd}
-      >
-        <div className="grid" aria-hidden="true">
-          {Array.from({ length: SIZE * SIZE }).map((_, index) => (
-            <div className="cell" key={`bg-${index}`} />
-          ))}
-        </div>
-        <div className="tiles">
-          {tiles.map((tile) => (
-            <div
-              className={`tile ${tile.moving ? "tile--moving" : ""}`}
-              role="gridcell"
-              key={tile.id}
-              style={{
-                width: cellSize,
-                height: cellSize,
-                transform: `translate(${tile.col * (cellSize + GAP)}px, ${tile.row * (cellSize + GAP)}px)`,
-                "--move-duration": isAnimating ? `${MOVE_STEP_MS}ms` : "0ms",
-              } as React.CSSProperties}
-            >
-              <div
-                className={`tile-inner ${
-                  tile.merged ? "tile-inner--merge" : tile.isNew ? "tile-inner--new" : ""
-                }`}
-                style={{
-                  backgroundImage: TILE_IMAGES[tile.value]
-                    ? `url(${TILE_IMAGES[tile.value]})`
-                    : "none",
-                }}
+        {editor && (
+          <div className="settings">
+            <div className="actions">
+              <label className="setting">
+                <span className="label">Board Size</span>
+                <select
+                  value={editor.size}
+                  onChange={(event) => resizeEditor(Number(event.target.value))}
+                >
+                  {SIZE_OPTIONS.map((size) => (
+                    <option key={size} value={size}>
+                      {size}x{size}
+                    </option>
+                  ))}
+                </select>
+              </label>
+              <label className="setting">
+                <span className="label">Tile</span>
+                <select
+                  value={editor.brush}
+                  onChange={(event) => setEditor({ ...editor, brush: event.target.value })}
+                >
+                  {EDITOR_BRUSHES.map((brush) => (
+                    <option key={brush.token} value={brush.token}>
+                      {brush.label}
+                    </option>
+                  ))}
+                </select>
+              </label>
+              <label className="setting">
+                <span className="label">Score</span>
+                <input
+                  type="number"
+                  min={0}
+                  value={editor.score}
+                  onChange={(event) =>
+                    setEditor({ ...editor, score: Math.max(0, Number(event.target.value) || 0) })
+                  }
+                />
+              </label>
+            </div>
+            <div className="editor-grid" style={{ "--cells": editor.size } as React.CSSProperties}>
+              {Array.from({ length: editor.size * editor.size }, (_, index) => {
+                const row = Math.floor(index / editor.size);
+                const col = index % editor.size;
+                const tile = editor.tiles.find((item) => item.row === row && item.col === col);
+                const label = tile ? brushLabel(cellToken(tile)) : "";
+                return (
+                  <button
+                    className={`editor-cell ${tile ? "editor-cell--filled" : ""}`}
+                    key={`${row}-${col}`}
+                    onClick={() => paintEditorCell(row, col)}
+                    type="button"
+                    aria-label={`Row ${row + 1}, column ${col + 1}: ${label || "empty"}`}
+                  >
+                    {label}
+                  </button>
+                );
+              })}
+            </div>
+            <label className="setting">
+              <span className="label">Import / Export</span>
+              <textarea
+                rows={3}
+                value={editor.text}
+                placeholder="2,0,4,8/0,0,0,0/... or a JSON tile list"
+                onChange={(event) => setEditor({ ...editor, text: event.target.value })}
+              />
+            </label>
+            {editor.error && (
+              <p className="muted" role="alert">
+                {editor.error}
+              </p>
+            )}
+            <div className="actions">
+              <button
+                className="reset"
+                onClick={() => setEditor({ ...editor, text: boardToText(editor), error: "" })}
+                type="button"
               >
-                <span className="sr-only">{tile.value}</span>
-              </div>
+                Export Text
+              </button>
+              <button
+                className="reset"
+                onClick={() => setEditor({ ...editor, text: boardToJson(editor.tiles), error: "" })}
+                type="button"
+              >
+                Export JSON
+              </button>
+              <button className="reset" onClick={importEditorBoard} type="button">
+                Import
+              </button>
+              <button
+                className="reset"
+                onClick={playEditorBoard}
+                type="button"
+                disabled={editor.tiles.length === 0}
+              >
+                Play from Here
+              </button>
+              <button className="reset" onClick={() => setEditor(null)} type="button">
+                Cancel
+              </button>
             </div>
-          ))}
+          </div>
+        )}
+        <div className="actions">
+          <button className="reset" onClick={toggleMute} type="button" aria-pressed={!sound.muted}>
+            {sound.muted ? "Unmute (recommended)" : "Mute"}
+          </button>
+          <label className="setting">
+            <span className="label">Master Volume</span>
+            <input
+              type="range"
+              min={0}
+              max={1}
+              step={0.05}
+              value={sound.master}
+              onChange={(event) => setSound({ ...sound, master: Number(event.target.value) })}
+            />
+          </label>
+          <label className="setting">
+            <span className="label">Effects Volume</span>
+            <input
+              type="range"
+              min={0}
+              max={1}
+              step={0.05}
+              value={sound.effects}
+              onChange={(event) => setSound({ ...sound, effects: Number(event.target.value) })}
+            />
+          </label>
         </div>
       </div>
 
+      <Board
+        tiles={tiles}
+        size={boardSize}
+        theme={theme}
+        label={`2048 board, ${boardSize} by ${boardSize}`}
+        plan={activeMove?.plan}
+        duration={activeMove?.fast ? 0 : moveDuration}
+        onMoveEnd={() => activeMove && finishMove(activeMove)}
+        onSwipe={queueMove}
+        gesture={gesture}
+      >
+        {hint && (
+          <div className={`hint hint--${hint}`} aria-hidden="true">
+            {DIRECTION_ARROWS[hint]}
+          </div>
+        )}
+      </Board>
+
       {popupValue !== null && (
         <div className="merge-overlay" aria-hidden="true">
           <div
-            className="merge-image"
-            style={{
-              backgroundImage: TILE_IMAGES[popupValue] ? `url(${TILE_IMAGES[popupValue]})` : "none",
-            }}
-          />
+            className={`merge-image ${popupVisual?.showValue ? "merge-image--plain" : ""}`}
+            style={popupVisual ? tileVisualStyle(popupVisual) : undefined}
+          >
+            {popupVisual?.showValue && popupValue}
+          </div>
         </div>
       )}
 
       {rickrollVisible && (
-        <div className="rickroll" role="dialog" aria-label="Rickroll">
+        <div
+          className="rickroll"
+          role="dialog"
+          aria-modal="true"
+          aria-label="Rickroll"
+          ref={rickrollRef}
+          onKeyDown={(event) => {
+            if (event.key === "Escape") closeRickroll();
+          }}
+        >
           <div className="rickroll-inner">
-            {isTouchDevice ? (
-              <div className="rickroll-mobile">
-                {rickrollImageVisible && <img src="/rick-astley.png" alt="Rick Astley" />}
-                {!soundEnabled && (
-                  <div className="rickroll-start">
-                    <p>Enable sound to play</p>
-                    <button className="reset" type="button" onClick={handleEnableSound}>
-                      Enable Sound
-                    </button>
-                  </div>
+            <div className="rickroll-reward">
+              {rickrollImageVisible && <img src="/rick-astley.png" alt="Rick Astley" />}
+              {!soundEnabled && (
+                <div className="rickroll-start">
+                  <p>Enable sound to play</p>
+                  <button className="reset" type="button" onClick={handleEnableSound}>
+                    Enable Sound
+                  </button>
+                </div>
+              )}
+            </div>
+            <button className="rickroll-close" type="button" onClick={closeRickroll}>
+              Close
+            </button>
+          </div>
+        </div>
+      )}
+
+      {gameOver && !playback && (
+        <div
+          className="gameover"
+          role="dialog"
+          aria-modal="true"
+          aria-label={`Game over, final score ${score}`}
+          ref={gameOverRef}
+        >
+          <p> Bruh </p>
+          {gameOverReason && <p className="muted">{gameOverReason}</p>}
+          {cheatEnabled ? (
+            <p className="muted">Cheated games can’t be submitted to the leaderboard.</p>
+          ) : assisted ? (
+            <p className="muted">Games played with hints or autoplay can’t be submitted.</p>
+          ) : rules.timeLimitMs !== undefined && !clockToken ? (
+            <p className="muted">
+              The server clock wasn’t reached, so this game can’t be submitted.
+            </p>
+          ) : (
+            submitStatus.state !== "done" && (
+              <form
+                className="actions"
+                onSubmit={(event) => {
+                  event.preventDefault();
+                  handleSubmitScore();
+                }}
+              >
+                <input
+                  aria-label="Your name"
+                  placeholder="Your name"
+                  maxLength={NAME_MAX_LENGTH}
+                  value={playerName}
+                  onChange={(event) => setPlayerName(event.target.value)}
+                />
+                <button
+                  className="reset"
+                  type="submit"
+                  disabled={
+                    !normalizeName(playerName) || submitStatus.state === "sending" || clockStopping
+                  }
+                >
+                  Submit Score
+                </button>
+              </form>
+            )
+          )}
+          {submitStatus.message && (
+            <p className="muted" role="status">
+              {submitStatus.message}
+            </p>
+          )}
+          {shareCard && <img className="share-card" src={shareCard.url} alt="Result card" />}
+          <div className="actions">
+            {shareCard ? (
+              <>
+                <button
+                  className="reset"
+                  onClick={() => downloadFile(`2048-${score}.png`, shareCard.blob)}
+                  type="button"
+                >
+                  Download Card
+                </button>
+                <button className="reset" onClick={handleCopyCard} type="button">
+                  Copy Image
+                </button>
+                {"share" in navigator && (
+                  <button className="reset" onClick={handleShareCard} type="button">
+                    Share…
+                  </button>
                 )}
-              </div>
-            ) : soundEnabled ? (
-              <iframe
-                src="https://www.youtube.com/embed/dQw4w9WgXcQ?autoplay=1&mute=0&playsinline=1"
-                title="Rickroll"
-                allow="autoplay; encrypted-media; fullscreen; picture-in-picture"
-                allowFullScreen
-              />
+              </>
             ) : (
-              <div className="rickroll-start">
-                <p>Enable sound to play</p>
-                <button className="reset" type="button" onClick={handleEnableSound}>
-                  Enable Sound
-                </button>
-              </div>
+              <button className="reset" onClick={handleRenderCard} type="button">
+                Share
+              </button>
             )}
-            <button
-              className="rickroll-close"
-              type="button"
-              onClick={() => {
-                setRickrollVisible(false);
-                setRickrollImageVisible(false);
-                if (rickrollImageTimeoutRef.current) {
-                  window.clearTimeout(rickrollImageTimeoutRef.current);
-                }
-                if (rickrollAudioRef.current) {
-                  rickrollAudioRef.current.pause();
-                  rickrollAudioRef.current.currentTime = 0;
-                }
-              }}
-            >
-              Close
+            <button className="reset" onClick={handleCopyResultText} type="button">
+              Copy Text
             </button>
           </div>
+          {shareStatus && (
+            <p className="muted" role="status">
+              {shareStatus}
+            </p>
+          )}
+          <div className="actions">
+            <button className="reset" onClick={() => handleNewGame()} type="button">
+              Try Again
+            </button>
+            {canUndo && (
+              <button className="reset" onClick={handleUndo} type="button">
+                Undo
+              </button>
+            )}
+          </div>
         </div>
       )}
 
-      {gameOver && (
-        <div className="gameover">
-          <p> Bruh </p>
-          <button className="reset" onClick={handleRestart} type="button">
-            Try Again
-          </button>
+      {showWin && (
+        <div className="gameover" role="dialog" aria-modal="true" aria-label="You win" ref={winRef}>
+          <p>You reached {targetTile}!</p>
+          <div className="actions">
+            <button className="reset" onClick={() => setKeepGoing(true)} type="button">
+              Keep Going
+            </button>
+            <button className="reset" onClick={() => handleNewGame()} type="button">
+              New Game
+            </button>
+          </div>
         </div>
       )}
+
+      {toasts.length > 0 && (
+        <div className="toast" role="status">
+          <span className="toast-badge" aria-hidden="true">
+            {toasts[0].badge}
+          </span>
+          <div>
+            <strong>Achievement unlocked: {toasts[0].name}</strong>
+            <p className="muted">{toasts[0].description}</p>
+          </div>
+        </div>
+      )}
+
+      <div className="sr-only" role="status" aria-live="polite">
+        {announcement}
+      </div>
     </main>
   );
 }
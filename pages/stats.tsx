@@ -0,0 +1,189 @@
+import Link from "next/link";
+import { useCallback, useEffect, useMemo, useRef, useState } from "react";
+import { downloadFile } from "../lib/files";
+import { MODE_RULES } from "../lib/modes";
+import {
+  type GameRecord,
+  WIN_TILE,
+  clearGameRecords,
+  importGameRecords,
+  listGameRecords,
+  parseGameRecords,
+  rankGames,
+  summarizeGames,
+} from "../lib/stats";
+
+const formatDuration = (ms: number): string => {
+  const seconds = Math.max(0, Math.round(ms / 1000));
+  const minutes = Math.floor(seconds / 60);
+  return `${minutes}:${String(seconds % 60).padStart(2, "0")}`;
+};
+
+const formatDate = (time: number): string => new Date(time).toLocaleString();
+
+export default function Stats() {
+  const importRef = useRef<HTMLInputElement | null>(null);
+  const [games, setGames] = useState<GameRecord[]>([]);
+  const [loaded, setLoaded] = useState(false);
+
+  const refresh = useCallback(() => {
+    listGameRecords()
+      .then(setGames)
+      .catch(() => setGames([]))
+      .finally(() => setLoaded(true));
+  }, []);
+
+  useEffect(() => {
+    refresh();
+  }, [refresh]);
+
+  const summary = useMemo(() => summarizeGames(games), [games]);
+  const leaders = useMemo(() => rankGames(games), [games]);
+  const histogramMax = Math.max(1, ...summary.histogram.map((bucket) => bucket.count));
+
+  const handleExport = () => {
+    downloadFile("2048-stats.json", JSON.stringify(games, null, 2));
+  };
+
+  const handleImport = async (file: File) => {
+    const records = await file
+      .text()
+      .then((text) => parseGameRecords(JSON.parse(text)))
+      .catch(() => []);
+    if (!records.length) {
+      window.alert("Could not import the stats. Pick a .json file exported from this page.");
+      return;
+    }
+    await importGameRecords(records).catch(() =>
+      window.alert("The stats couldn't be saved in this browser.")
+    );
+    refresh();
+  };
+
+  const handleClear = async () => {
+    if (!window.confirm("Delete all recorded games?")) return;
+    await clearGameRecords().catch(() => {});
+    refresh();
+  };
+
+  return (
+    <main className="page">
+      <div className="panel">
+        <div>
+          <h1>Stats</h1>
+          <p className="muted">Every finished game played in this browser.</p>
+        </div>
+        <div className="actions">
+          <Link className="reset" href="/">
+            Back to Game
+          </Link>
+          <button className="reset" onClick={handleExport} type="button" disabled={!games.length}>
+            Export JSON
+          </button>
+          <button className="reset" onClick={() => importRef.current?.click()} type="button">
+            Import JSON
+          </button>
+          <button className="reset" onClick={handleClear} type="button" disabled={!games.length}>
+            Clear
+          </button>
+          <input
+            ref={importRef}
+            type="file"
+            accept="application/json,.json"
+            hidden
+            onChange={(event) => {
+              const file = event.target.files?.[0];
+              if (file) handleImport(file);
+              event.target.value = "";
+            }}
+          />
+        </div>
+
+        <div className="scores">
+          <div className="score">
+            <span className="label">Played</span>
+            <span className="value">{summary.played}</span>
+          </div>
+          <div className="score">
+            <span className="label">Win Rate</span>
+            <span className="value">{Math.round(summary.winRate * 100)}%</span>
+          </div>
+          <div className="score">
+            <span className="label">Avg Score</span>
+            <span className="value">{Math.round(summary.averageScore)}</span>
+          </div>
+        </div>
+        <p className="muted">
+          A win means reaching {WIN_TILE}. Games where the cheat or solver was used are left out
+          of the win rate, the average score and the leaderboard.
+        </p>
+
+        <section className="stats-section">
+          <span className="label">Max Tile Reached</span>
+          {summary.histogram.length === 0 && <p className="muted">No games yet.</p>}
+          <div className="histogram">
+            {summary.histogram.map((bucket) => (
+              <div className="histogram-row" key={bucket.value}>
+                <span>{bucket.value}</span>
+                <div
+                  className="histogram-bar"
+                  style={{ width: `${(bucket.count / histogramMax) * 100}%` }}
+                />
+                <span>{bucket.count}</span>
+              </div>
+            ))}
+          </div>
+        </section>
+
+        <section className="stats-section">
+          <span className="label">Leaderboard</span>
+          {leaders.length === 0 ? (
+            <p className="muted">No eligible games yet.</p>
+          ) : (
+            <ol className="leaderboard">
+              {leaders.map((game) => (
+                <li key={game.id}>
+                  <strong>{game.score}</strong> · {game.maxTile} · {game.size}x{game.size} ·{" "}
+                  {formatDate(game.endedAt)}
+                </li>
+              ))}
+            </ol>
+          )}
+        </section>
+
+        <section className="stats-section">
+          <span className="label">Past Games</span>
+          {loaded && games.length === 0 && <p className="muted">No games yet.</p>}
+          {games.length > 0 && (
+            <table className="stats-table">
+              <thead>
+                <tr>
+                  <th>Date</th>
+                  <th>Score</th>
+                  <th>Max</th>
+                  <th>Moves</th>
+                  <th>Time</th>
+                  <th>Mode</th>
+                  <th>Cheat</th>
+                </tr>
+              </thead>
+              <tbody>
+                {games.map((game) => (
+                  <tr key={game.id}>
+                    <td>{formatDate(game.endedAt)}</td>
+                    <td>{game.score}</td>
+                    <td>{game.maxTile}</td>
+                    <td>{game.moves}</td>
+                    <td>{formatDuration(game.endedAt - game.startedAt)}</td>
+                    <td>{MODE_RULES[game.mode ?? "classic"].name}</td>
+                    <td>{game.cheated ? "Yes" : game.assisted ? "Solver" : ""}</td>
+                  </tr>
+                ))}
+              </tbody>
+            </table>
+          )}
+        </section>
+      </div>
+    </main>
+  );
+}
@@ -0,0 +1,204 @@
+import Link from "next/link";
+import { useCallback, useEffect, useState } from "react";
+import Board from "../components/Board";
+import { DEFAULT_MOVE_DURATION, loadMoveDuration } from "../lib/animation";
+import type { Direction, GameState, MovePlan } from "../lib/engine";
+import { isEditableTarget } from "../lib/focus";
+import { DEFAULT_GESTURE, loadGestureOptions, useGamepadDirections } from "../lib/input";
+import {
+  BUILT_IN_THEMES,
+  MEME_THEME,
+  type Theme,
+  loadCustomTheme,
+  loadThemeId,
+} from "../lib/themes";
+import {
+  TUTORIAL_STEPS,
+  type TutorialProgress,
+  loadTutorialProgress,
+  playTutorialMove,
+  saveTutorialProgress,
+  stepState,
+} from "../lib/tutorial";
+
+const KEY_DIRECTIONS: Record<string, Direction> = {
+  ArrowLeft: "left",
+  ArrowRight: "right",
+  ArrowUp: "up",
+  ArrowDown: "down",
+};
+
+const DIRECTION_ARROWS: Record<Direction, string> = {
+  left: "←",
+  right: "→",
+  up: "↑",
+  down: "↓",
+};
+
+type Feedback = {
+  tone: "info" | "warning" | "success";
+  message: string;
+};
+
+export default function Tutorial() {
+  const [progress, setProgress] = useState<TutorialProgress>({ step: 0, completed: [] });
+  const [game, setGame] = useState<GameState>(() => stepState(TUTORIAL_STEPS[0]));
+  const [plan, setPlan] = useState<MovePlan | null>(null);
+  const [turn, setTurn] = useState(0);
+  const [feedback, setFeedback] = useState<Feedback | null>(null);
+  const [theme, setTheme] = useState<Theme>(MEME_THEME);
+  const [gesture, setGesture] = useState(DEFAULT_GESTURE);
+  const [moveDuration, setMoveDuration] = useState(DEFAULT_MOVE_DURATION);
+
+  const step = TUTORIAL_STEPS[progress.step];
+  const solved = step.goal(game.tiles);
+  const isLast = progress.step === TUTORIAL_STEPS.length - 1;
+
+  useEffect(() => {
+    const id = loadThemeId();
+    setTheme(BUILT_IN_THEMES.find((item) => item.id === id) ?? MEME_THEME);
+    loadCustomTheme().then((custom) => {
+      if (custom?.id === id) setTheme(custom);
+    });
+    setGesture(loadGestureOptions());
+    setMoveDuration(loadMoveDuration());
+    const saved = loadTutorialProgress();
+    setProgress(saved);
+    setGame(stepState(TUTORIAL_STEPS[saved.step]));
+  }, []);
+
+  const updateProgress = (next: TutorialProgress) => {
+    setProgress(next);
+    saveTutorialProgress(next);
+  };
+
+  const goToStep = (index: number) => {
+    updateProgress({ ...progress, step: index });
+    setGame(stepState(TUTORIAL_STEPS[index]));
+    setPlan(null);
+    setTurn(0);
+    setFeedback(null);
+  };
+
+  const handleMove = useCallback(
+    (direction: Direction) => {
+      if (solved) return;
+      const result = playTutorialMove(game, direction, step, turn);
+      if (result.status !== "moved") {
+        const tone = result.status === "blocked" ? "warning" : "info";
+        setFeedback({ tone, message: result.message });
+        return;
+      }
+      setGame(result.state);
+      setPlan(result.plan);
+      setTurn((prev) => prev + 1);
+      if (!step.goal(result.state.tiles)) {
+        setFeedback({ tone: "info", message: result.message });
+        return;
+      }
+      setFeedback({ tone: "success", message: `${result.message} ${step.success}` });
+      if (!progress.completed.includes(step.id)) {
+        updateProgress({ ...progress, completed: [...progress.completed, step.id] });
+      }
+    },
+    [game, progress, solved, step, turn]
+  );
+
+  useEffect(() => {
+    const handleKey = (event: KeyboardEvent) => {
+      if (event.ctrlKey || event.metaKey || event.altKey || isEditableTarget(event.target)) return;
+      const direction = KEY_DIRECTIONS[event.key];
+      if (!direction) return;
+      event.preventDefault();
+      handleMove(direction);
+    };
+
+    window.addEventListener("keydown", handleKey);
+    return () => window.removeEventListener("keydown", handleKey);
+  }, [handleMove]);
+
+  useGamepadDirections(handleMove);
+
+  return (
+    <main className="page">
+      <div className="panel">
+        <div>
+          <h1>Tutorial</h1>
+          <p className="muted">
+            Step {progress.step + 1} of {TUTORIAL_STEPS.length}: {step.title}
+          </p>
+        </div>
+        <ol className="tutorial-steps">
+          {TUTORIAL_STEPS.map((item, index) => (
+            <li
+              className={index === progress.step ? "tutorial-step--current" : undefined}
+              key={item.id}
+            >
+              {progress.completed.includes(item.id) ? "✓ " : ""}
+              {item.title}
+            </li>
+          ))}
+        </ol>
+        <p>{step.intro}</p>
+        {feedback && (
+          <p
+            className={`tutorial-feedback tutorial-feedback--${feedback.tone}`}
+            role={feedback.tone === "warning" ? "alert" : "status"}
+          >
+            {feedback.message}
+          </p>
+        )}
+        <div className="actions">
+          <button className="reset" onClick={() => goToStep(progress.step)} type="button">
+            Restart Step
+          </button>
+          <button
+            className="reset"
+            onClick={() => goToStep(progress.step - 1)}
+            type="button"
+            disabled={progress.step === 0}
+          >
+            Previous
+          </button>
+          {isLast ? (
+            <Link className="reset" href="/">
+              {solved ? "Play a Real Game" : "Skip to Game"}
+            </Link>
+          ) : (
+            <button
+              className="reset"
+              onClick={() => goToStep(progress.step + 1)}
+              type="button"
+              disabled={!solved && !progress.completed.includes(step.id)}
+            >
+              Next Step
+            </button>
+          )}
+          <Link className="reset" href="/">
+            Back to Game
+          </Link>
+        </div>
+      </div>
+
+      <div className="tutorial-board">
+        <Board
+          tiles={game.tiles}
+          size={game.size}
+          theme={theme}
+          label="Tutorial board"
+          plan={plan}
+          duration={moveDuration}
+          onSwipe={handleMove}
+          gesture={gesture}
+        >
+          {!solved &&
+            step.expected.map((direction) => (
+              <div className={`hint hint--${direction}`} aria-hidden="true" key={direction}>
+                {DIRECTION_ARROWS[direction]}
+              </div>
+            ))}
+        </Board>
+      </div>
+    </main>
+  );
+}
@@ -0,0 +1,189 @@
+import Link from "next/link";
+import { useCallback, useEffect, useRef, useState } from "react";
+import Board from "../components/Board";
+import { DEFAULT_MOVE_DURATION, loadMoveDuration } from "../lib/animation";
+import type { Direction, MovePlan } from "../lib/engine";
+import { isEditableTarget, useFocusTrap } from "../lib/focus";
+import { DEFAULT_GESTURE, loadGestureOptions, useGamepadDirections } from "../lib/input";
+import { createSeed } from "../lib/rng";
+import {
+  ATTACK_TILE,
+  type PlayerId,
+  VERSUS_TARGET,
+  type VersusBoard,
+  createVersusGame,
+  playVersusMove,
+} from "../lib/versus";
+import {
+  BUILT_IN_THEMES,
+  MEME_THEME,
+  type Theme,
+  loadCustomTheme,
+  loadThemeId,
+} from "../lib/themes";
+
+type BoardPlans = [MovePlan | null, MovePlan | null];
+
+const VERSUS_SIZE = 4;
+
+const PLAYER_KEYS: Record<string, [PlayerId, Direction]> = {
+  w: [0, "up"],
+  a: [0, "left"],
+  s: [0, "down"],
+  d: [0, "right"],
+  ArrowUp: [1, "up"],
+  ArrowLeft: [1, "left"],
+  ArrowDown: [1, "down"],
+  ArrowRight: [1, "right"],
+};
+
+const PLAYER_NAMES = ["Player 1", "Player 2"];
+
+export default function Versus() {
+  const winnerRef = useRef<HTMLDivElement | null>(null);
+  const [attacks, setAttacks] = useState(true);
+  const [game, setGame] = useState(() => createVersusGame("", VERSUS_SIZE, true));
+  const gameRef = useRef(game);
+  gameRef.current = game;
+  const [plans, setPlans] = useState<BoardPlans>([null, null]);
+  const [theme, setTheme] = useState<Theme>(MEME_THEME);
+  const [gesture, setGesture] = useState(DEFAULT_GESTURE);
+  const [moveDuration, setMoveDuration] = useState(DEFAULT_MOVE_DURATION);
+  const [announcement, setAnnouncement] = useState("");
+
+  useEffect(() => {
+    const id = loadThemeId();
+    setTheme(BUILT_IN_THEMES.find((item) => item.id === id) ?? MEME_THEME);
+    loadCustomTheme().then((custom) => {
+      if (custom?.id === id) setTheme(custom);
+    });
+    setGesture(loadGestureOptions());
+    setMoveDuration(loadMoveDuration());
+    setGame(createVersusGame(createSeed(), VERSUS_SIZE, true));
+  }, []);
+
+  useFocusTrap(winnerRef, game.winner !== null);
+
+  const playMove = useCallback((player: PlayerId, direction: Direction) => {
+    const result = playVersusMove(gameRef.current, player, direction);
+    if (result.game === gameRef.current) return;
+    gameRef.current = result.game;
+    setGame(result.game);
+    setPlans((prev) => (player === 0 ? [result.plan, prev[1]] : [prev[0], result.plan]));
+    if (result.attacked) {
+      setAnnouncement(`${PLAYER_NAMES[player]} dropped a stone on the other board.`);
+    }
+  }, []);
+
+  useEffect(() => {
+    const handleKey = (event: KeyboardEvent) => {
+      if (event.ctrlKey || event.metaKey || event.altKey || isEditableTarget(event.target)) return;
+      const key = event.key.length === 1 ? event.key.toLowerCase() : event.key;
+      const binding = PLAYER_KEYS[key];
+      if (!binding) return;
+      event.preventDefault();
+      playMove(...binding);
+    };
+
+    window.addEventListener("keydown", handleKey);
+    return () => window.removeEventListener("keydown", handleKey);
+  }, [playMove]);
+
+  useGamepadDirections((direction, pad) => {
+    if (pad === 0 || pad === 1) playMove(pad, direction);
+  });
+
+  const [first, second] = game.boards;
+  const diff = first.state.score - second.state.score;
+  const leader =
+    diff === 0 ? "Scores are tied" : `${PLAYER_NAMES[diff > 0 ? 0 : 1]} leads by ${Math.abs(diff)}`;
+
+  const startMatch = (nextAttacks = attacks) => {
+    setGame(createVersusGame(createSeed(), VERSUS_SIZE, nextAttacks));
+    setPlans([null, null]);
+    setAnnouncement("New match started.");
+  };
+
+  return (
+    <main className="page">
+      <div className="panel">
+        <div>
+          <h1>Versus</h1>
+          <p className="muted">
+            Player 1 uses WASD, Player 2 uses the arrow keys. Swipe on a board or use one gamepad
+            per player. Both boards get the same spawns.
+          </p>
+        </div>
+        <p className="versus-diff" aria-live="polite">
+          {leader}
+        </p>
+        <label className="setting setting--inline">
+          <input
+            type="checkbox"
+            checked={attacks}
+            onChange={(event) => {
+              setAttacks(event.target.checked);
+              startMatch(event.target.checked);
+            }}
+          />
+          <span className="label">Attacks: merging {ATTACK_TILE}+ drops a stone on your rival</span>
+        </label>
+        <div className="actions">
+          <button className="reset" onClick={() => startMatch()} type="button">
+            New Match
+          </button>
+          <Link className="reset" href="/">
+            Back to Game
+          </Link>
+        </div>
+      </div>
+
+      <div className="versus">
+        {game.boards.map((board, index) => (
+          <section className="versus-side" aria-label={`${PLAYER_NAMES[index]} board`} key={index}>
+            <div className="score">
+              <span className="label">{PLAYER_NAMES[index]}</span>
+              <span className="value">{board.state.score}</span>
+            </div>
+            <Board
+              tiles={board.state.tiles}
+              size={board.state.size}
+              theme={theme}
+              label={`${PLAYER_NAMES[index]} tiles`}
+              plan={plans[index]}
+              duration={moveDuration}
+              onSwipe={(direction) => playMove(index as PlayerId, direction)}
+              gesture={gesture}
+            >
+              {board.over && <div className="versus-out">Stuck</div>}
+            </Board>
+          </section>
+        ))}
+      </div>
+
+      {game.winner !== null && (
+        <div
+          className="gameover"
+          role="dialog"
+          aria-modal="true"
+          aria-label="Match over"
+          ref={winnerRef}
+        >
+          <p>{game.winner === "draw" ? "It's a draw!" : `${PLAYER_NAMES[game.winner]} wins!`}</p>
+          <p className="muted">
+            {first.state.score} – {second.state.score}. First to {VERSUS_TARGET} wins outright.
+          </p>
+          <div className="actions">
+            <button className="reset" onClick={() => startMatch()} type="button">
+              Rematch
+            </button>
+          </div>
+        </div>
+      )}
+
+      <div className="sr-only" role="status" aria-live="polite">
+        {announcement}
+      </div>
+    </main>
+  );
+}
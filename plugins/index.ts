@@ -0,0 +1,6 @@
+import { registerPlugin } from "../lib/plugins";
+import { titleScorePlugin } from "./titleScore";
+
+// Built-in plugins. Add a `GamePlugin` module next to this file and register it here. This file
+// is loaded from `_app.tsx`, so the game installs it without any change to the pages.
+registerPlugin(titleScorePlugin);
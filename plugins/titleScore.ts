@@ -0,0 +1,24 @@
+import type { GamePlugin } from "../lib/plugins";
+
+export const titleScorePlugin: GamePlugin = {
+  id: "title-score",
+  name: "Score in Tab Title",
+  setup: (bus) => {
+    const original = document.title;
+    const subscriptions = [
+      bus.on("move", ({ score }) => {
+        document.title = `${score} · 2048`;
+      }),
+      bus.on("restart", () => {
+        document.title = original;
+      }),
+      bus.on("gameOver", ({ score }) => {
+        document.title = `Game over: ${score} · 2048`;
+      }),
+    ];
+    return () => {
+      subscriptions.forEach((unsubscribe) => unsubscribe());
+      document.title = original;
+    };
+  },
+};
@@ -0,0 +1,95 @@
+const BUILD = new URL(self.location.href).searchParams.get("build") || "dev";
+const CACHE_PREFIX = "2048-";
+const CACHE_NAME = `${CACHE_PREFIX}${BUILD}`;
+
+const PAGES = ["/", "/stats", "/versus", "/achievements", "/tutorial"];
+const ASSETS = [
+  "/manifest.webmanifest",
+  "/icons/icon.svg",
+  "/icons/maskable.svg",
+  "/Voicy_Bruh.mp3",
+  "/Voicy_Rickroll.mp3",
+  "/rick-astley.png",
+  "/tiles/2.webp",
+  "/tiles/4.jpg",
+  "/tiles/8.jpg",
+  "/tiles/16.webp",
+  "/tiles/32.jpeg",
+  "/tiles/64.jpeg",
+  "/tiles/128.jpg",
+  "/tiles/256.jpg",
+  "/tiles/512.jpeg",
+  "/tiles/1024.png",
+  "/tiles/2048.jpg",
+];
+
+const STATIC_PATTERN = /\/_next\/static\/[^"'\s)]+/g;
+
+const precachePage = async (cache, url) => {
+  const response = await fetch(url, { cache: "no-store" });
+  if (!response.ok) return;
+  const html = await response.clone().text();
+  await cache.put(url, response);
+  const chunks = Array.from(new Set(html.match(STATIC_PATTERN) || []));
+  await cache.addAll(chunks);
+};
+
+self.addEventListener("install", (event) => {
+  event.waitUntil(
+    caches.open(CACHE_NAME).then(async (cache) => {
+      await cache.addAll(ASSETS);
+      await Promise.all(PAGES.map((url) => precachePage(cache, url)));
+    })
+  );
+});
+
+self.addEventListener("activate", (event) => {
+  event.waitUntil(
+    caches
+      .keys()
+      .then((keys) =>
+        Promise.all(
+          keys
+            .filter((key) => key.startsWith(CACHE_PREFIX) && key !== CACHE_NAME)
+            .map((key) => caches.delete(key))
+        )
+      )
+  );
+});
+
+self.addEventListener("message", (event) => {
+  if (event.data && event.data.type === "SKIP_WAITING") self.skipWaiting();
+});
+
+const networkFirst = async (request) => {
+  const cache = await caches.open(CACHE_NAME);
+  const { pathname } = new URL(request.url);
+  try {
+    const response = await fetch(request);
+    if (response.ok) cache.put(pathname, response.clone());
+    return response;
+  } catch {
+    return (await cache.match(pathname)) || (await cache.match("/")) || Response.error();
+  }
+};
+
+const cacheFirst = async (request) => {
+  const cache = await caches.open(CACHE_NAME);
+  const cached = await cache.match(request);
+  if (cached) return cached;
+  const response = await fetch(request);
+  if (response.ok) cache.put(request, response.clone());
+  return response;
+};
+
+self.addEventListener("fetch", (event) => {
+  const { request } = event;
+  if (request.method !== "GET") return;
+  const url = new URL(request.url);
+  if (url.origin !== self.location.origin || url.pathname.startsWith("/api/")) return;
+  if (request.mode === "navigate") {
+    event.respondWith(networkFirst(request));
+  } else {
+    event.respondWith(cacheFirst(request));
+  }
+});